@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The shared schemas and data access are published as TypeScript source
+  transpilePackages: ["action-center-core", "action-center-schemas"],
 };
 
 export default nextConfig;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Task" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "project" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "due_date" TEXT,
+    "snoozed_until" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_name_key" ON "Project"("name");
+
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "recurrence" TEXT;
+
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "TaskEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "task_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "changes" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_task_id_created_at_idx" ON "TaskEvent"("task_id", "created_at");
+
@@ -0,0 +1,24 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_TaskEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "task_id" TEXT NOT NULL,
+    "mutation_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "changes" TEXT,
+    "snapshot" TEXT,
+    "undoable" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+-- Earlier events each become their own mutation. They were recorded without
+-- snapshots, so they stay in the history but can't be undone.
+INSERT INTO "new_TaskEvent" ("actor", "changes", "created_at", "id", "mutation_id", "task_id", "type", "undoable") SELECT "actor", "changes", "created_at", "id", "id", "task_id", "type", false FROM "TaskEvent";
+DROP TABLE "TaskEvent";
+ALTER TABLE "new_TaskEvent" RENAME TO "TaskEvent";
+CREATE INDEX "TaskEvent_task_id_created_at_idx" ON "TaskEvent"("task_id", "created_at");
+CREATE INDEX "TaskEvent_mutation_id_idx" ON "TaskEvent"("mutation_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
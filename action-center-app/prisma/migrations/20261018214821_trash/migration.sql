@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "deleted_at" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "deleted_at" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Task_deleted_at_idx" ON "Task"("deleted_at");
+
@@ -0,0 +1,25 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "project" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "priority" TEXT NOT NULL DEFAULT 'P2',
+    "due_date" TEXT,
+    "snoozed_until" TEXT,
+    "recurrence" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    "deleted_at" DATETIME
+);
+INSERT INTO "new_Task" ("created_at", "deleted_at", "due_date", "id", "notes", "project", "recurrence", "snoozed_until", "source", "status", "title", "updated_at") SELECT "created_at", "deleted_at", "due_date", "id", "notes", "project", "recurrence", "snoozed_until", "source", "status", "title", "updated_at" FROM "Task";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE INDEX "Task_deleted_at_idx" ON "Task"("deleted_at");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
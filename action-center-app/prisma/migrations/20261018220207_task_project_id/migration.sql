@@ -0,0 +1,38 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "project_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "priority" TEXT NOT NULL DEFAULT 'P2',
+    "due_date" TEXT,
+    "snoozed_until" TEXT,
+    "recurrence" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    "deleted_at" DATETIME,
+    CONSTRAINT "Task_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+-- Project names that only ever existed on tasks become real projects, with
+-- random version 4 UUIDs like the ones Prisma generates
+INSERT INTO "Project" ("id", "name")
+SELECT lower(
+    hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' ||
+    substr(hex(randomblob(2)), 2) || '-' ||
+    substr('89ab', 1 + abs(random()) % 4, 1) || substr(hex(randomblob(2)), 2) || '-' ||
+    hex(randomblob(6))
+), "project"
+FROM (SELECT DISTINCT "project" FROM "Task" WHERE "project" NOT IN (SELECT "name" FROM "Project"));
+-- Every task then points at its project by ID
+INSERT INTO "new_Task" ("created_at", "deleted_at", "due_date", "id", "notes", "priority", "project_id", "recurrence", "snoozed_until", "source", "status", "title", "updated_at") SELECT t."created_at", t."deleted_at", t."due_date", t."id", t."notes", t."priority", p."id", t."recurrence", t."snoozed_until", t."source", t."status", t."title", t."updated_at" FROM "Task" t JOIN "Project" p ON p."name" = t."project";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE INDEX "Task_deleted_at_idx" ON "Task"("deleted_at");
+CREATE INDEX "Task_project_id_idx" ON "Task"("project_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
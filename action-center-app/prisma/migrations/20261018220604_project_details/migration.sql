@@ -0,0 +1,20 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "description" TEXT,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "repo_path" TEXT,
+    "deleted_at" DATETIME
+);
+INSERT INTO "new_Project" ("deleted_at", "id", "name") SELECT "deleted_at", "id", "name" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE UNIQUE INDEX "Project_name_key" ON "Project"("name");
+CREATE UNIQUE INDEX "Project_repo_path_key" ON "Project"("repo_path");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "due_time" TEXT;
+
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "Watermark" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "updated_at" DATETIME NOT NULL
+);
+
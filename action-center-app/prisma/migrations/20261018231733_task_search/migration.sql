@@ -0,0 +1,32 @@
+-- The index behind task search (lib/search.ts), which triggers keep in sync
+-- with "Task" and "Project"
+CREATE VIRTUAL TABLE "task_search" USING fts5(
+    task_id UNINDEXED, title, notes, project,
+    tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER "task_search_insert" AFTER INSERT ON "Task" BEGIN
+    INSERT INTO "task_search" (task_id, title, notes, project)
+    VALUES (new.id, new.title, coalesce(new.notes, ''), (SELECT name FROM "Project" WHERE id = new.project_id));
+END;
+
+CREATE TRIGGER "task_search_update" AFTER UPDATE ON "Task" BEGIN
+    DELETE FROM "task_search" WHERE task_id = old.id;
+    INSERT INTO "task_search" (task_id, title, notes, project)
+    VALUES (new.id, new.title, coalesce(new.notes, ''), (SELECT name FROM "Project" WHERE id = new.project_id));
+END;
+
+CREATE TRIGGER "task_search_delete" AFTER DELETE ON "Task" BEGIN
+    DELETE FROM "task_search" WHERE task_id = old.id;
+END;
+
+-- Renaming a project doesn't touch its tasks' rows, so reindex them here
+CREATE TRIGGER "task_search_project_rename" AFTER UPDATE OF name ON "Project" BEGIN
+    UPDATE "task_search" SET project = new.name
+    WHERE task_id IN (SELECT id FROM "Task" WHERE project_id = new.id);
+END;
+
+-- Index the tasks that already exist
+INSERT INTO "task_search" (task_id, title, notes, project)
+SELECT t.id, t.title, coalesce(t.notes, ''), p.name
+FROM "Task" t JOIN "Project" p ON p.id = t.project_id;
@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { subscribe } from "action-center-core/events";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 25_000;
+
+// Server-sent events stream of task and project changes
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribe((event) =>
+        write(`data: ${JSON.stringify(event)}\n\n`)
+      );
+      // Comment lines keep proxies and the browser from timing the stream out
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      write("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { mergeProjectBody } from "action-center-schemas";
+import { mergeProject } from "action-center-core/services/projects";
+import {
+  mutationHeaders,
+  parseBody,
+  requestActor,
+  serviceErrorResponse,
+} from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Folds this project into `target_id` in one undoable step
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  const body = await parseBody(request, mergeProjectBody);
+  if (!body.ok) return body.response;
+
+  try {
+    const { result, mutationId } = await mergeProject(
+      id,
+      body.data,
+      requestActor(request)
+    );
+    return Response.json(result, { headers: mutationHeaders(mutationId) });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to merge projects");
+  }
+}
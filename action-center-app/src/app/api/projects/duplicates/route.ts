@@ -0,0 +1,10 @@
+import { findDuplicateProjects } from "action-center-core/services/projects";
+import { serviceErrorResponse } from "@/lib/api-helpers";
+
+export async function GET() {
+  try {
+    return Response.json(await findDuplicateProjects());
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to find duplicate projects");
+  }
+}
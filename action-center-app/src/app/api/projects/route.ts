@@ -1,57 +1,35 @@
 import { NextRequest } from "next/server";
-import { db } from "@/lib/db";
-import { errorResponse } from "@/lib/api-helpers";
+import { createProjectBody, listProjectsQuery } from "action-center-schemas";
+import {
+  createProject,
+  listProjects,
+} from "action-center-core/services/projects";
+import {
+  parseBody,
+  parseQuery,
+  serviceErrorResponse,
+} from "@/lib/api-helpers";
+
+// ?path=/some/dir returns only the project linked to that directory (or its
+// closest parent)
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, listProjectsQuery);
+  if (!query.ok) return query.response;
 
-export async function GET() {
   try {
-    const projects = await db.project.findMany({ orderBy: { name: "asc" } });
-
-    const taskCounts = await db.task.groupBy({
-      by: ["project"],
-      _count: { id: true },
-    });
-
-    const countMap = new Map(
-      taskCounts.map((row) => [row.project, row._count.id])
-    );
-
-    return Response.json(
-      projects.map((p) => ({
-        id: p.id,
-        name: p.name,
-        task_count: countMap.get(p.name) ?? 0,
-      }))
-    );
-  } catch {
-    return errorResponse("Failed to retrieve projects", 500);
+    return Response.json(await listProjects(query.data.path));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to retrieve projects");
   }
 }
 
 export async function POST(request: NextRequest) {
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return errorResponse("Invalid JSON body", 400);
-  }
-
-  const { name } = body as Record<string, string | undefined>;
-
-  if (!name || name.trim() === "") {
-    return errorResponse("name is required", 400);
-  }
+  const body = await parseBody(request, createProjectBody);
+  if (!body.ok) return body.response;
 
   try {
-    const project = await db.project.create({ data: { name: name.trim() } });
-    return Response.json(project, { status: 201 });
+    return Response.json(await createProject(body.data), { status: 201 });
   } catch (err) {
-    if (
-      err instanceof Error &&
-      "code" in err &&
-      (err as { code: string }).code === "P2002"
-    ) {
-      return errorResponse(`Project "${name}" already exists`, 409);
-    }
-    return errorResponse("Failed to create project", 500);
+    return serviceErrorResponse(err, "Failed to create project");
   }
 }
@@ -0,0 +1,13 @@
+import { readSettings } from "action-center-core/services/settings";
+import { serviceErrorResponse } from "@/lib/api-helpers";
+
+// Read from the environment on every request, never at build time
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return Response.json(readSettings());
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to read settings");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { tagBody } from "action-center-schemas";
+import { deleteTag, renameTag } from "action-center-core/services/tags";
+import { parseBody, serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  const body = await parseBody(request, tagBody);
+  if (!body.ok) return body.response;
+
+  try {
+    return Response.json(await renameTag(id, body.data));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to rename tag");
+  }
+}
+
+// Deleting a tag only unlabels its tasks; the tasks themselves are untouched
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    await deleteTag(id);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to delete tag");
+  }
+}
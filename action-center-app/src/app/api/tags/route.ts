@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { tagBody } from "action-center-schemas";
+import { createTag, listTags } from "action-center-core/services/tags";
+import { parseBody, serviceErrorResponse } from "@/lib/api-helpers";
+
+export async function GET() {
+  try {
+    return Response.json(await listTags());
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to retrieve tags");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await parseBody(request, tagBody);
+  if (!body.ok) return body.response;
+
+  try {
+    return Response.json(await createTag(body.data), { status: 201 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to create tag");
+  }
+}
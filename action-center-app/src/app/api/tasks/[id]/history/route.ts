@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { taskHistory } from "action-center-core/services/history";
+import { serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    return Response.json(await taskHistory(id));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to retrieve task history");
+  }
+}
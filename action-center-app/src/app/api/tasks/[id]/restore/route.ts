@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { restoreTrashedTask } from "action-center-core/services/trash";
+import {
+  mutationHeaders,
+  requestActor,
+  serviceErrorResponse,
+} from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    const { result, mutationId } = await restoreTrashedTask(
+      id,
+      requestActor(request)
+    );
+    return Response.json(result, { headers: mutationHeaders(mutationId) });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to restore task");
+  }
+}
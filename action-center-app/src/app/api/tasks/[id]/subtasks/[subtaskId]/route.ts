@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { updateSubtaskBody } from "action-center-schemas";
+import {
+  deleteSubtask,
+  updateSubtask,
+} from "action-center-core/services/subtasks";
+import { parseBody, serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string; subtaskId: string }> };
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id, subtaskId } = await params;
+
+  const body = await parseBody(request, updateSubtaskBody);
+  if (!body.ok) return body.response;
+
+  try {
+    return Response.json(await updateSubtask(id, subtaskId, body.data));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to update subtask");
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id, subtaskId } = await params;
+
+  try {
+    await deleteSubtask(id, subtaskId);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to delete subtask");
+  }
+}
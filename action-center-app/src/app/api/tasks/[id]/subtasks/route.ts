@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { createSubtaskBody } from "action-center-schemas";
+import {
+  addSubtask,
+  listSubtasks,
+} from "action-center-core/services/subtasks";
+import { parseBody, serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    return Response.json(await listSubtasks(id));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to retrieve subtasks");
+  }
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  const body = await parseBody(request, createSubtaskBody);
+  if (!body.ok) return body.response;
+
+  try {
+    return Response.json(await addSubtask(id, body.data), { status: 201 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to create subtask");
+  }
+}
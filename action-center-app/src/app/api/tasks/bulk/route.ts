@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { bulkTasksBody } from "action-center-schemas";
+import { bulkUpdateTasks } from "action-center-core/services/tasks";
+import {
+  mutationHeaders,
+  parseBody,
+  requestActor,
+  serviceErrorResponse,
+} from "@/lib/api-helpers";
+
+// Applies one change to many tasks in one undoable step; see bulkUpdateTasks
+export async function POST(request: NextRequest) {
+  const body = await parseBody(request, bulkTasksBody);
+  if (!body.ok) return body.response;
+
+  try {
+    const { result, mutationId } = await bulkUpdateTasks(
+      body.data,
+      requestActor(request)
+    );
+    return Response.json(result, { headers: mutationHeaders(mutationId) });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to update tasks");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { purgeTrashedProject } from "action-center-core/services/trash";
+import { serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    await purgeTrashedProject(id);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to delete project permanently");
+  }
+}
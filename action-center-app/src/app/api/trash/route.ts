@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { emptyTrash, listTrash } from "action-center-core/services/trash";
+import { requestActor, serviceErrorResponse } from "@/lib/api-helpers";
+
+export async function GET() {
+  try {
+    return Response.json(await listTrash());
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to retrieve trash");
+  }
+}
+
+// Empties the trash for good
+export async function DELETE(request: NextRequest) {
+  try {
+    await emptyTrash(requestActor(request));
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to empty trash");
+  }
+}
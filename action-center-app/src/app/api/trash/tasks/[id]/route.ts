@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { purgeTrashedTask } from "action-center-core/services/trash";
+import { requestActor, serviceErrorResponse } from "@/lib/api-helpers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+
+  try {
+    await purgeTrashedTask(id, requestActor(request));
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to delete task permanently");
+  }
+}
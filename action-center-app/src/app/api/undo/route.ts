@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { undoBody } from "action-center-schemas";
+import { undoChanges } from "action-center-core/services/undo";
+import {
+  parseBody,
+  requestActor,
+  serviceErrorResponse,
+} from "@/lib/api-helpers";
+
+export async function POST(request: NextRequest) {
+  const body = await parseBody(request, undoBody);
+  if (!body.ok) return body.response;
+
+  try {
+    return Response.json(await undoChanges(body.data, requestActor(request)));
+  } catch (err) {
+    return serviceErrorResponse(err, "Failed to undo");
+  }
+}
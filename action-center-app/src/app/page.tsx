@@ -1,23 +1,83 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { calendarDate, clockTime, snoozeEnded } from "action-center-core/dates";
+import { UNCATEGORISED } from "action-center-core/projects";
+import { describeRecurrence } from "action-center-core/recurrence";
+import { MUTATION_HEADER } from "@/lib/api-helpers";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+type Subtask = {
+  id: string;
+  task_id: string;
+  title: string;
+  done: boolean;
+  position: number;
+};
+
+type Tag = { id: string; name: string };
+
+type Project = {
+  id: string;
+  name: string;
+  color: string | null;
+  description: string | null;
+  archived: boolean;
+  repo_path: string | null;
+  task_count: number;
+};
+
 type Task = {
   id: string;
   title: string;
   notes: string | null;
   project: string;
   status: string;
+  priority: string;
   due_date: string | null;
+  due_time: string | null;
   snoozed_until: string | null;
+  recurrence: string | null;
   source: string;
   created_at: string;
   updated_at: string;
+  subtasks: Subtask[];
+  tags: Tag[];
 };
 
-type TabKey = "upcoming" | "scheduled" | "completed" | "unscheduled";
+type FieldChange = { from: string | null; to: string | null };
+
+type TaskEvent = {
+  id: string;
+  task_id: string;
+  type: string;
+  actor: string;
+  changes: Record<string, FieldChange> | null;
+  created_at: string;
+};
+
+type Toast = {
+  message: string;
+  // Set once the server confirms the change, enabling the Undo button
+  mutationId: string | null;
+};
+
+// Pushed by GET /api/events whenever the server (or Claude, via MCP) writes
+type ChangeEvent =
+  | { type: "task.created" | "task.updated"; task: Task }
+  | { type: "task.deleted"; id: string }
+  | { type: "tasks.changed" | "projects.changed" | "tags.changed" };
+
+type TabKey = "upcoming" | "scheduled" | "completed" | "unscheduled" | "trash";
+
+type TrashedProject = { id: string; name: string; deleted_at: string };
+
+type Trash = {
+  tasks: (Task & { deleted_at: string })[];
+  projects: TrashedProject[];
+  retention_days: number;
+};
 
 type RowCtx =
   | "overdue"
@@ -29,17 +89,24 @@ type RowCtx =
 
 // ─── Date helpers ─────────────────────────────────────────────────────────────
 
-function localDate(d: Date = new Date()): string {
-  return [
-    d.getFullYear(),
-    String(d.getMonth() + 1).padStart(2, "0"),
-    String(d.getDate()).padStart(2, "0"),
-  ].join("-");
+// Dates are worked out in the time zone the server is configured with
+// (GET /api/settings), not the browser's, so "today" here is the same day
+// the API uses to wake snoozed tasks and schedule recurrences
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const TimeZoneContext = createContext(BROWSER_TIME_ZONE);
+
+function useTimeZone(): string {
+  return useContext(TimeZoneContext);
+}
+
+function localDate(d: Date, timeZone: string): string {
+  return calendarDate(d, timeZone);
 }
 
 function shiftDays(base: string, n: number): string {
   const [y, m, d] = base.split("-").map(Number);
-  return localDate(new Date(y, m - 1, d + n));
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().split("T")[0];
 }
 
 function parseAsLocal(s: string): Date {
@@ -67,8 +134,60 @@ function fmtStatus(s: string): string {
   });
 }
 
-function datePart(iso: string): string {
-  return iso.split("T")[0];
+// The day a timestamp falls on, e.g. when a task was completed
+function datePart(iso: string, timeZone: string): string {
+  return localDate(new Date(iso), timeZone);
+}
+
+// "Mar 10, 2025 · 17:30"
+function fmtDue(date: string, time: string | null): string {
+  return time ? `${fmtStatus(date)} · ${time}` : fmtStatus(date);
+}
+
+// A snooze ends at a moment ("2026-03-02 17:00") or as its day starts
+function fmtSnooze(until: string): string {
+  return fmtDue(until.slice(0, 10), until.slice(11) || null);
+}
+
+// Snoozed with no end date, or one still to come
+function isSnoozed(task: Task, timeZone: string): boolean {
+  if (task.status !== "snoozed") return false;
+  return task.snoozed_until === null || !snoozeEnded(task.snoozed_until, new Date(), timeZone);
+}
+
+// Past its day, or due earlier today
+function isOverdue(task: Task, today: string, now: string): boolean {
+  if (task.due_date === null) return false;
+  if (task.due_date < today) return true;
+  return task.due_date === today && task.due_time !== null && task.due_time < now;
+}
+
+// ─── Task list helpers ────────────────────────────────────────────────────────
+
+// P0 first; Array.prototype.sort is stable, so ties keep their existing order
+function byPriority(a: Task, b: Task): number {
+  return a.priority.localeCompare(b.priority);
+}
+
+// The dashboard loads archived projects' tasks too, but only shows them when
+// that project is picked in the projects panel
+const TASKS_URL = "/api/tasks?include_archived=true";
+
+// Replaces a task in place, or prepends it if it isn't in the list yet
+function upsertTask(tasks: Task[], task: Task): Task[] {
+  return tasks.some((t) => t.id === task.id)
+    ? tasks.map((t) => (t.id === task.id ? task : t))
+    : [task, ...tasks];
+}
+
+// Prefers the API's own error message, e.g. a name conflict
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const { error } = await res.json();
+    return typeof error === "string" ? error : fallback;
+  } catch {
+    return fallback;
+  }
 }
 
 // ─── SVG Icons ────────────────────────────────────────────────────────────────
@@ -124,6 +243,111 @@ function CalendarIcon() {
   );
 }
 
+function SearchIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-4 h-4"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="11" cy="11" r="7" />
+      <path d="M21 21l-4.35-4.35" />
+    </svg>
+  );
+}
+
+function RepeatIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-3 h-3"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M17 1l4 4-4 4" />
+      <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+      <path d="M7 23l-4-4 4-4" />
+      <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+    </svg>
+  );
+}
+
+function ChecklistIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-3 h-3"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M9 11l3 3L22 4" />
+      <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+    </svg>
+  );
+}
+
+function ClockIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-4 h-4"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="12" cy="12" r="10" />
+      <path d="M12 6v6l4 2" />
+    </svg>
+  );
+}
+
+function SnoozeIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-4 h-4"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M21 12.8A9 9 0 1 1 11.2 3a7 7 0 0 0 9.8 9.8z" />
+      <path d="M15 4h4l-4 5h4" />
+    </svg>
+  );
+}
+
+function TrashIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      className="w-4 h-4"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M3 6h18" />
+      <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+      <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+    </svg>
+  );
+}
+
 // ─── Loading spinner ──────────────────────────────────────────────────────────
 
 function Spinner() {
@@ -160,16 +384,199 @@ function Empty({ message }: { message: string }) {
   );
 }
 
+// ─── Search box ───────────────────────────────────────────────────────────────
+
+function SearchBox({
+  value,
+  matchCount,
+  onChange,
+}: {
+  value: string;
+  matchCount: number | null;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="mb-6">
+      <div
+        className="flex items-center gap-3 rounded-lg px-3 py-2 border border-white/10 focus-within:border-white/30 transition-colors"
+        style={{ backgroundColor: "#30302E" }}
+      >
+        <span className="text-[#C2C0B6]">
+          <SearchIcon />
+        </span>
+        <input
+          type="search"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") onChange("");
+          }}
+          placeholder="Search tasks, notes and projects"
+          className="flex-1 bg-transparent outline-none text-sm text-white placeholder:text-[#C2C0B6]/60"
+        />
+        {value && (
+          <button
+            onClick={() => onChange("")}
+            aria-label="Clear search"
+            className="text-[#C2C0B6] hover:text-white transition-colors cursor-pointer leading-none"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {matchCount !== null && (
+        <p className="text-xs text-[#C2C0B6] mt-2">
+          {matchCount} matching task{matchCount !== 1 ? "s" : ""} across all tabs
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ─── Project pill ─────────────────────────────────────────────────────────────
 
-function ProjectPill({ name }: { name: string }) {
+function ProjectPill({ name, project }: { name: string; project?: Project }) {
   return (
-    <span className="inline-block text-xs text-white rounded-full px-4 py-1 bg-[#30302E] mt-2">
+    <span
+      title={project?.description ?? undefined}
+      className="inline-flex items-center gap-2 text-xs text-white rounded-full px-4 py-1 bg-[#30302E] mt-2"
+    >
+      {project?.color && (
+        <span
+          className="w-2 h-2 rounded-full shrink-0"
+          style={{ backgroundColor: project.color }}
+        />
+      )}
       {name}
     </span>
   );
 }
 
+// ─── Tag chip ─────────────────────────────────────────────────────────────────
+
+function TagChip({ name }: { name: string }) {
+  return (
+    <span className="inline-block text-xs text-[#C2C0B6] rounded-full px-3 py-1 border border-white/15 mt-2 ml-2">
+      #{name}
+    </span>
+  );
+}
+
+// ─── Priority flag ────────────────────────────────────────────────────────────
+
+// P2 is the default, so only tasks that differ from it are flagged
+const PRIORITY_STYLES: Record<string, { label: string; className: string }> = {
+  P0: { label: "Urgent", className: "text-red-400 border-red-400/50" },
+  P1: { label: "High", className: "text-[#CD7253] border-[#CD7253]/50" },
+  P3: { label: "Low", className: "text-[#C2C0B6] border-white/20" },
+};
+
+function PriorityFlag({ priority }: { priority: string }) {
+  const style = PRIORITY_STYLES[priority];
+  if (!style) return null;
+  return (
+    <span
+      title={`${style.label} priority`}
+      className={`inline-block align-middle text-[10px] font-bold rounded px-1.5 py-px border mr-2 ${style.className}`}
+    >
+      {priority}
+    </span>
+  );
+}
+
+// ─── Recurrence badge ─────────────────────────────────────────────────────────
+
+function RecurrenceBadge({ rule }: { rule: string }) {
+  return (
+    <span
+      title={rule}
+      className="inline-flex items-center gap-1.5 text-xs text-[#CD7253] rounded-full px-3 py-1 border border-[#CD7253]/40 mt-2 ml-2"
+    >
+      <RepeatIcon />
+      {describeRecurrence(rule)}
+    </span>
+  );
+}
+
+// ─── Subtask checklist ────────────────────────────────────────────────────────
+
+function SubtaskProgress({
+  subtasks,
+  expanded,
+  onClick,
+}: {
+  subtasks: Subtask[];
+  expanded: boolean;
+  onClick: () => void;
+}) {
+  const completed = subtasks.filter((s) => s.done).length;
+  const allDone = completed === subtasks.length;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-expanded={expanded}
+      className={[
+        "inline-flex items-center gap-1.5 text-xs rounded-full px-3 py-1 mt-2 ml-2 border transition-colors cursor-pointer",
+        allDone
+          ? "text-[#CD7253] border-[#CD7253]/40"
+          : "text-[#C2C0B6] border-white/20 hover:text-white",
+      ].join(" ")}
+    >
+      <ChecklistIcon />
+      {completed}/{subtasks.length}
+    </button>
+  );
+}
+
+function SubtaskList({
+  subtasks,
+  onToggle,
+}: {
+  subtasks: Subtask[];
+  onToggle: (subtaskId: string) => void;
+}) {
+  return (
+    <ul className="mt-3 flex flex-col gap-2">
+      {subtasks.map((s) => (
+        <li key={s.id} className="flex items-center gap-2.5">
+          <button
+            type="button"
+            onClick={() => onToggle(s.id)}
+            aria-label={s.done ? "Mark step as not done" : "Mark step as done"}
+            className={[
+              "shrink-0 w-4 h-4 rounded flex items-center justify-center transition-colors cursor-pointer",
+              s.done
+                ? "bg-[#CD7253]"
+                : "border border-white/40 hover:border-white/60",
+            ].join(" ")}
+          >
+            {s.done && (
+              <svg
+                viewBox="0 0 10 8"
+                fill="none"
+                className="w-2.5 h-2.5"
+                stroke="white"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M1 4l2.5 2.5L9 1" />
+              </svg>
+            )}
+          </button>
+          <span
+            className={`text-sm ${s.done ? "text-[#C2C0B6] line-through" : "text-white/90"}`}
+          >
+            {s.title}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // ─── Checkbox ─────────────────────────────────────────────────────────────────
 
 function Checkbox({
@@ -270,42 +677,424 @@ function RescheduleTooltip({
   );
 }
 
+// ─── Snooze menu ──────────────────────────────────────────────────────────────
+
+const SNOOZE_LATER_HOURS = 3;
+
+function SnoozeMenu({
+  snoozed,
+  onSnooze,
+}: {
+  snoozed: boolean;
+  onSnooze: (until: string | null) => void;
+}) {
+  const timeZone = useTimeZone();
+  const instant = new Date();
+  const today = localDate(instant, timeZone);
+  const tomorrow = shiftDays(today, 1);
+  const [customDate, setCustomDate] = useState(tomorrow);
+
+  // On the hour, and only while that is still today
+  const laterHour = Number(clockTime(instant, timeZone).slice(0, 2)) + SNOOZE_LATER_HOURS;
+  const laterToday =
+    laterHour < 24 ? `${today} ${String(laterHour).padStart(2, "0")}:00` : null;
+  // Monday of next week, the same as "next week" in due date phrases
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const nextWeek = shiftDays(today, 7 - ((weekday + 6) % 7));
+
+  const presets = [
+    ...(laterToday ? [{ label: "Later today", until: laterToday, hint: laterToday.slice(11) }] : []),
+    { label: "Tomorrow", until: tomorrow, hint: fmtStatus(tomorrow) },
+    { label: "Next week", until: nextWeek, hint: fmtStatus(nextWeek) },
+  ];
+
+  return (
+    <div
+      className="absolute left-[calc(100%+8px)] top-0 z-50 rounded-xl flex flex-col gap-4"
+      style={{
+        width: 328,
+        backgroundColor: "#262624",
+        padding: "24px 16px",
+        boxShadow: "0 0 20px rgba(255,255,255,0.08)",
+      }}
+    >
+      <label style={{ fontSize: 14, color: "#ffffff" }}>Snooze until</label>
+      <div className="flex flex-col">
+        {presets.map((p) => (
+          <button
+            key={p.label}
+            onClick={() => onSnooze(p.until)}
+            className="flex items-center justify-between rounded-lg px-3 py-2 text-sm text-white hover:bg-white/10 cursor-pointer"
+          >
+            <span>{p.label}</span>
+            <span className="text-xs text-[#C2C0B6]">{p.hint}</span>
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={customDate}
+          min={tomorrow}
+          onChange={(e) => setCustomDate(e.target.value)}
+          className="flex-1 rounded-lg px-3 py-2 outline-none border border-white/10"
+          style={{
+            backgroundColor: "#30302E",
+            color: "#ffffff",
+            fontSize: 16,
+            colorScheme: "dark",
+          }}
+        />
+        <button
+          onClick={() => {
+            if (customDate) onSnooze(customDate);
+          }}
+          className="px-4 rounded-full text-white transition-opacity hover:opacity-90 cursor-pointer"
+          style={{ backgroundColor: "#CD7253", fontSize: 14, fontWeight: 500 }}
+        >
+          Snooze
+        </button>
+      </div>
+      {snoozed && (
+        <button
+          onClick={() => onSnooze(null)}
+          className="text-sm font-semibold text-[#CD7253] hover:underline cursor-pointer self-start"
+        >
+          Wake now
+        </button>
+      )}
+    </div>
+  );
+}
+
 // ─── Reschedule toast ─────────────────────────────────────────────────────────
 
-function RescheduleToast({ message }: { message: string }) {
+function RescheduleToast({
+  message,
+  onUndo,
+}: {
+  message: string;
+  onUndo?: () => void;
+}) {
   return (
     <div
-      className="fixed top-6 right-6 z-50 text-white text-sm rounded-lg animate-fade-in"
+      className="fixed top-6 right-6 z-50 flex items-center gap-4 text-white text-sm rounded-lg animate-fade-in"
       style={{
         backgroundColor: "#30302E",
         padding: "8px 24px",
       }}
     >
       {message}
+      {onUndo && (
+        <button
+          onClick={onUndo}
+          className="font-semibold text-[#CD7253] hover:opacity-80 transition-opacity cursor-pointer"
+        >
+          Undo
+        </button>
+      )}
     </div>
   );
 }
 
-// ─── Task row ─────────────────────────────────────────────────────────────────
+// ─── Bulk action bar ──────────────────────────────────────────────────────────
 
-function TaskRow({
-  task,
-  ctx,
-  onToggle,
-  onReschedule,
-  onReopen,
+type BulkAction = "status" | "due_date" | "project" | "delete";
+
+function BulkActionBar({
+  count,
+  allDone,
+  projects,
+  onApply,
+  onClear,
 }: {
-  task: Task;
-  ctx: RowCtx;
-  onToggle: (id: string) => void;
-  onReschedule: (id: string, newDate: string) => void;
-  onReopen?: (id: string, newDate: string) => void;
+  count: number;
+  allDone: boolean;
+  projects: string[];
+  onApply: (action: BulkAction, value?: string | null) => void;
+  onClear: () => void;
 }) {
-  const done = task.status === "done";
-  const [tooltipOpen, setTooltipOpen] = useState(false);
+  const [mode, setMode] = useState<"due_date" | "project" | null>(null);
+  const [value, setValue] = useState("");
 
-  function handleCheckboxClick() {
-    if (done && onReopen) {
+  function open(next: "due_date" | "project") {
+    setMode(mode === next ? null : next);
+    setValue("");
+  }
+
+  const buttonClass =
+    "px-3 py-1.5 rounded-full text-sm font-semibold text-white hover:bg-white/10 transition-colors cursor-pointer";
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-3 rounded-xl animate-fade-in"
+      style={{
+        backgroundColor: "#30302E",
+        padding: "12px 16px",
+        boxShadow: "0 0 20px rgba(255,255,255,0.08)",
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-[#C2C0B6] mr-2 whitespace-nowrap">
+          {count} selected
+        </span>
+        <button
+          className={buttonClass}
+          onClick={() => onApply("status", allDone ? "pending" : "done")}
+        >
+          {allDone ? "Reopen" : "Complete"}
+        </button>
+        <button className={buttonClass} onClick={() => open("due_date")}>
+          Reschedule
+        </button>
+        <button className={buttonClass} onClick={() => open("project")}>
+          Move to project
+        </button>
+        <button
+          className={`${buttonClass} hover:text-red-400`}
+          onClick={() => onApply("delete")}
+        >
+          Delete
+        </button>
+        <button
+          onClick={onClear}
+          aria-label="Clear selection"
+          className="ml-2 text-[#C2C0B6] hover:text-white transition-colors cursor-pointer text-lg leading-none"
+        >
+          ×
+        </button>
+      </div>
+
+      {mode && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!value.trim()) return;
+            onApply(mode, value.trim());
+            setMode(null);
+          }}
+        >
+          <input
+            type={mode === "due_date" ? "date" : "text"}
+            list={mode === "project" ? "bulk-projects" : undefined}
+            value={value}
+            autoFocus
+            placeholder={mode === "project" ? "Project name" : undefined}
+            onChange={(e) => setValue(e.target.value)}
+            className="flex-1 rounded-lg px-3 py-1.5 outline-none border border-white/10 text-sm"
+            style={{
+              backgroundColor: "#262624",
+              color: "#ffffff",
+              colorScheme: "dark",
+            }}
+          />
+          {mode === "project" && (
+            <datalist id="bulk-projects">
+              {projects.map((p) => (
+                <option key={p} value={p} />
+              ))}
+            </datalist>
+          )}
+          <button
+            type="submit"
+            className="px-4 py-1.5 rounded-full text-sm text-white transition-opacity hover:opacity-90 cursor-pointer"
+            style={{ backgroundColor: "#CD7253", fontWeight: 500 }}
+          >
+            {mode === "due_date" ? "Reschedule" : "Move"}
+          </button>
+          {mode === "due_date" && (
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={() => {
+                onApply("due_date", null);
+                setMode(null);
+              }}
+            >
+              Unschedule
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ─── History panel ────────────────────────────────────────────────────────────
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  in_progress: "In progress",
+  done: "Done",
+  snoozed: "Snoozed",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  notes: "notes",
+  project: "project",
+  project_id: "project",
+  priority: "priority",
+  tags: "tags",
+  snoozed_until: "snooze",
+  recurrence: "repeat",
+};
+
+const ACTOR_LABELS: Record<string, string> = {
+  claude: "Claude",
+  manual: "You",
+  system: "Automatic",
+};
+
+function describeEvent(e: TaskEvent): string {
+  const change = (field: string) => e.changes?.[field];
+
+  switch (e.type) {
+    case "created":
+      return "Created";
+    case "deleted":
+      return "Moved to trash";
+    case "restored":
+      return "Restored from trash";
+    case "purged":
+      return "Deleted permanently";
+    case "status_changed": {
+      const { from, to } = change("status") ?? { from: null, to: null };
+      return `Status changed from ${STATUS_LABELS[from ?? ""] ?? from} to ${STATUS_LABELS[to ?? ""] ?? to}`;
+    }
+    case "rescheduled": {
+      const date = change("due_date");
+      const time = change("due_time");
+      if (!date) {
+        return time?.to ? `Due time set to ${time.to}` : "Due time cleared";
+      }
+      const { from, to } = date;
+      if (!from && to) return `Scheduled for ${fmtDue(to, time?.to ?? null)}`;
+      if (from && !to) return "Unscheduled";
+      return `Rescheduled from ${fmtDue(from!, time?.from ?? null)} to ${fmtDue(to!, time?.to ?? null)}`;
+    }
+    default: {
+      const fields = Object.keys(e.changes ?? {}).map((f) => FIELD_LABELS[f] ?? f);
+      return `Edited ${fields.join(", ")}`;
+    }
+  }
+}
+
+function HistoryPanel({ task, onClose }: { task: Task; onClose: () => void }) {
+  const [events, setEvents] = useState<TaskEvent[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/tasks/${task.id}/history`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to fetch");
+        return res.json();
+      })
+      .then((data: TaskEvent[]) => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 cursor-default">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Panel */}
+      <div
+        className="relative w-full max-w-lg rounded-2xl overflow-y-auto max-h-[80vh]"
+        style={{ backgroundColor: "#1E1E1C", padding: "32px 28px" }}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 w-8 h-8 flex items-center justify-center rounded-full bg-white/10 text-white/60 hover:bg-white/20 transition-colors cursor-pointer text-lg leading-none"
+        >
+          ×
+        </button>
+
+        <h2 className="text-xl font-semibold text-white mb-1">History</h2>
+        <p className="text-sm text-[#C2C0B6] mb-6 pr-8">{task.title}</p>
+
+        {error ? (
+          <Empty message="Could not load history. Please try again." />
+        ) : events === null ? (
+          <Spinner />
+        ) : events.length === 0 ? (
+          <Empty message="No changes recorded yet" />
+        ) : (
+          <ol className="flex flex-col gap-4">
+            {events.map((e) => (
+              <li key={e.id} className="flex gap-3">
+                <div className="w-1.5 h-1.5 rounded-full bg-[#CD7253] mt-2 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">{describeEvent(e)}</p>
+                  <p className="text-xs text-[#C2C0B6] mt-0.5">
+                    {ACTOR_LABELS[e.actor] ?? e.actor} ·{" "}
+                    {new Date(e.created_at).toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Task row ─────────────────────────────────────────────────────────────────
+
+function TaskRow({
+  task,
+  ctx,
+  onToggle,
+  onReschedule,
+  onToggleSubtask,
+  onDelete,
+  onReopen,
+  onSnooze,
+  highlighted = false,
+  selected = false,
+  onSelect,
+  projectInfo,
+}: {
+  task: Task;
+  ctx: RowCtx;
+  onToggle: (id: string) => void;
+  onReschedule: (id: string, newDate: string) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onDelete: (id: string) => void;
+  onReopen?: (id: string, newDate: string) => void;
+  onSnooze?: (id: string, until: string | null) => void;
+  highlighted?: boolean;
+  selected?: boolean;
+  onSelect?: (id: string) => void;
+  projectInfo?: Project;
+}) {
+  const timeZone = useTimeZone();
+  const done = task.status === "done";
+  const [tooltipOpen, setTooltipOpen] = useState(false);
+  const [checklistOpen, setChecklistOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [snoozeOpen, setSnoozeOpen] = useState(false);
+  const snoozed = isSnoozed(task, timeZone);
+
+  function handleCheckboxClick() {
+    if (done && onReopen) {
       setTooltipOpen(true);
     } else {
       onToggle(task.id);
@@ -316,17 +1105,17 @@ function TaskRow({
   let labelClass = "text-[#CD7253]";
 
   if (ctx === "overdue") {
-    label = `Overdue: ${task.due_date ? fmtStatus(task.due_date) : ""}`;
+    label = `Overdue: ${task.due_date ? fmtDue(task.due_date, task.due_time) : ""}`;
     labelClass = "text-red-400";
   } else if (
     ctx === "due-today" ||
     ctx === "upcoming" ||
     ctx === "scheduled"
   ) {
-    label = `Due: ${task.due_date ? fmtStatus(task.due_date) : ""}`;
+    label = `Due: ${task.due_date ? fmtDue(task.due_date, task.due_time) : ""}`;
     labelClass = "text-[#CD7253]";
   } else if (ctx === "completed") {
-    label = `Completed: ${fmtStatus(datePart(task.updated_at))}`;
+    label = `Completed: ${fmtStatus(datePart(task.updated_at, timeZone))}`;
     labelClass = "text-[#C2C0B6]";
   } else {
     label = "Unscheduled";
@@ -337,8 +1126,23 @@ function TaskRow({
 
   return (
     <div
+      onMouseDown={(e) => {
+        // Stop shift-click from selecting text
+        if (e.shiftKey && onSelect) e.preventDefault();
+      }}
+      onClickCapture={(e) => {
+        // Shift-click adds the row to the bulk selection instead of acting
+        // on whatever was under the pointer
+        if (!e.shiftKey || !onSelect) return;
+        e.preventDefault();
+        e.stopPropagation();
+        onSelect(task.id);
+      }}
+      aria-selected={selected}
       className={[
-        "flex items-start gap-4 py-4 px-2 hover:bg-white/10 hover:rounded-lg cursor-pointer transition-all",
+        "group flex items-start gap-4 py-4 px-2 hover:bg-white/10 hover:rounded-lg cursor-pointer transition-all",
+        highlighted ? "animate-highlight rounded-lg" : "",
+        selected ? "bg-white/10 rounded-lg ring-1 ring-[#CD7253]" : "",
       ].join(" ")}
     >
       <Checkbox checked={done} onChange={handleCheckboxClick} />
@@ -349,6 +1153,7 @@ function TaskRow({
             done ? "line-through" : "",
           ].join(" ")}
         >
+          <PriorityFlag priority={task.priority} />
           {task.title}
         </p>
         {task.notes && (
@@ -356,9 +1161,85 @@ function TaskRow({
             {task.notes}
           </p>
         )}
-        {task.project && <ProjectPill name={task.project} />}
+        {task.project && (
+          <ProjectPill name={task.project} project={projectInfo} />
+        )}
+        {task.tags.map((tag) => (
+          <TagChip key={tag.id} name={tag.name} />
+        ))}
+        {task.recurrence && <RecurrenceBadge rule={task.recurrence} />}
+        {snoozed && (
+          <p className="text-xs text-[#C2C0B6] mt-1">
+            {task.snoozed_until
+              ? `Snoozed until ${fmtSnooze(task.snoozed_until)}`
+              : "Snoozed"}
+          </p>
+        )}
+        {task.subtasks.length > 0 && (
+          <SubtaskProgress
+            subtasks={task.subtasks}
+            expanded={checklistOpen}
+            onClick={() => setChecklistOpen((o) => !o)}
+          />
+        )}
+        {checklistOpen && task.subtasks.length > 0 && (
+          <SubtaskList
+            subtasks={task.subtasks}
+            onToggle={(subtaskId) => onToggleSubtask(task.id, subtaskId)}
+          />
+        )}
       </div>
 
+      <button
+        type="button"
+        onClick={() => setHistoryOpen(true)}
+        aria-label="Show history"
+        title="History"
+        className="shrink-0 mt-0.5 text-[#C2C0B6] opacity-0 group-hover:opacity-100 hover:text-white transition-opacity cursor-pointer"
+      >
+        <ClockIcon />
+      </button>
+      {historyOpen && (
+        <HistoryPanel task={task} onClose={() => setHistoryOpen(false)} />
+      )}
+      {!done && onSnooze && (
+        <div className="relative shrink-0 mt-0.5">
+          <button
+            type="button"
+            onClick={() => setSnoozeOpen(true)}
+            aria-label="Snooze"
+            title="Snooze"
+            className={`text-[#C2C0B6] hover:text-white transition-opacity cursor-pointer ${snoozed ? "" : "opacity-0 group-hover:opacity-100"}`}
+          >
+            <SnoozeIcon />
+          </button>
+          {snoozeOpen && (
+            <>
+              <div
+                className="fixed inset-0 z-40"
+                onClick={() => setSnoozeOpen(false)}
+              />
+              <SnoozeMenu
+                snoozed={snoozed}
+                onSnooze={(until) => {
+                  onSnooze(task.id, until);
+                  setSnoozeOpen(false);
+                }}
+              />
+            </>
+          )}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => onDelete(task.id)}
+        aria-label="Move to trash"
+        title="Move to trash"
+        className="shrink-0 mt-0.5 text-[#C2C0B6] opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity cursor-pointer"
+      >
+        <TrashIcon />
+      </button>
+
       {/* Due date label — clickable to open reschedule tooltip */}
       <div className="relative shrink-0 mt-0.5">
         <span
@@ -428,29 +1309,52 @@ function UpcomingTab({
   tasks,
   onToggle,
   onReschedule,
+  onSnooze,
+  onToggleSubtask,
+  onDelete,
+  highlightIds,
+  selectedIds,
+  onSelect,
+  projects,
   today,
   todayPlus6,
 }: {
   tasks: Task[];
   onToggle: (id: string) => void;
   onReschedule: (id: string, newDate: string) => void;
+  onSnooze: (id: string, until: string | null) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onDelete: (id: string) => void;
+  highlightIds: Set<string>;
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  projects: Map<string, Project>;
   today: string;
   todayPlus6: string;
 }) {
-  const overdue = tasks.filter(
-    (t) => t.status !== "done" && t.due_date !== null && t.due_date < today
-  );
-  const dueToday = tasks.filter(
-    (t) => t.status !== "done" && t.due_date === today
-  );
-  const upcoming = tasks.filter(
-    (t) =>
-      t.status !== "done" &&
-      t.due_date !== null &&
-      t.due_date > today &&
-      t.due_date <= todayPlus6
+  const timeZone = useTimeZone();
+  const now = clockTime(new Date(), timeZone);
+  // Snoozed tasks stay out of every section until they wake
+  const active = tasks.filter(
+    (t) => t.status !== "done" && !isSnoozed(t, timeZone)
   );
 
+  // Most important first within each section
+  const overdue = active
+    .filter((t) => isOverdue(t, today, now))
+    .sort(byPriority);
+  const dueToday = active
+    .filter((t) => t.due_date === today && !isOverdue(t, today, now))
+    .sort(byPriority);
+  const upcoming = active
+    .filter(
+      (t) =>
+        t.due_date !== null &&
+        t.due_date > today &&
+        t.due_date <= todayPlus6
+    )
+    .sort(byPriority);
+
   return (
     <div className="space-y-8">
       {overdue.length > 0 && (
@@ -460,9 +1364,16 @@ function UpcomingTab({
             <TaskRow
               key={t.id}
               task={t}
+              highlighted={highlightIds.has(t.id)}
+              selected={selectedIds.has(t.id)}
+              onSelect={onSelect}
+              projectInfo={projects.get(t.project)}
               ctx="overdue"
               onToggle={onToggle}
               onReschedule={onReschedule}
+              onSnooze={onSnooze}
+              onToggleSubtask={onToggleSubtask}
+              onDelete={onDelete}
             />
           ))}
         </section>
@@ -477,9 +1388,16 @@ function UpcomingTab({
             <TaskRow
               key={t.id}
               task={t}
+              highlighted={highlightIds.has(t.id)}
+              selected={selectedIds.has(t.id)}
+              onSelect={onSelect}
+              projectInfo={projects.get(t.project)}
               ctx="due-today"
               onToggle={onToggle}
               onReschedule={onReschedule}
+              onSnooze={onSnooze}
+              onToggleSubtask={onToggleSubtask}
+              onDelete={onDelete}
             />
           ))
         )}
@@ -497,9 +1415,16 @@ function UpcomingTab({
             <TaskRow
               key={t.id}
               task={t}
+              highlighted={highlightIds.has(t.id)}
+              selected={selectedIds.has(t.id)}
+              onSelect={onSelect}
+              projectInfo={projects.get(t.project)}
               ctx="upcoming"
               onToggle={onToggle}
               onReschedule={onReschedule}
+              onSnooze={onSnooze}
+              onToggleSubtask={onToggleSubtask}
+              onDelete={onDelete}
             />
           ))
         )}
@@ -514,11 +1439,25 @@ function ScheduledTab({
   tasks,
   onToggle,
   onReschedule,
+  onSnooze,
+  onToggleSubtask,
+  onDelete,
+  highlightIds,
+  selectedIds,
+  onSelect,
+  projects,
   todayPlus7,
 }: {
   tasks: Task[];
   onToggle: (id: string) => void;
   onReschedule: (id: string, newDate: string) => void;
+  onSnooze: (id: string, until: string | null) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onDelete: (id: string) => void;
+  highlightIds: Set<string>;
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  projects: Map<string, Project>;
   todayPlus7: string;
 }) {
   const [sort, setSort] = useState<"closest" | "furthest">("closest");
@@ -562,9 +1501,16 @@ function ScheduledTab({
           <TaskRow
             key={t.id}
             task={t}
+            highlighted={highlightIds.has(t.id)}
+            selected={selectedIds.has(t.id)}
+            onSelect={onSelect}
+            projectInfo={projects.get(t.project)}
             ctx="scheduled"
             onToggle={onToggle}
             onReschedule={onReschedule}
+            onSnooze={onSnooze}
+            onToggleSubtask={onToggleSubtask}
+            onDelete={onDelete}
           />
         ))
       )}
@@ -621,19 +1567,32 @@ function CompletedTab({
   tasks,
   onToggle,
   onReschedule,
+  onToggleSubtask,
+  onDelete,
+  highlightIds,
+  selectedIds,
+  onSelect,
+  projects,
   onReopen,
 }: {
   tasks: Task[];
   onToggle: (id: string) => void;
   onReschedule: (id: string, newDate: string) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onDelete: (id: string) => void;
+  highlightIds: Set<string>;
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  projects: Map<string, Project>;
   onReopen: (id: string, newDate: string) => void;
 }) {
   const [dateFilter, setDateFilter] = useState("");
   const [filterTooltipOpen, setFilterTooltipOpen] = useState(false);
 
+  const timeZone = useTimeZone();
   const completedAll = tasks.filter((t) => t.status === "done");
   const filtered = dateFilter
-    ? completedAll.filter((t) => datePart(t.updated_at) === dateFilter)
+    ? completedAll.filter((t) => datePart(t.updated_at, timeZone) === dateFilter)
     : completedAll;
 
   return (
@@ -687,9 +1646,15 @@ function CompletedTab({
           <TaskRow
             key={t.id}
             task={t}
+            highlighted={highlightIds.has(t.id)}
+            selected={selectedIds.has(t.id)}
+            onSelect={onSelect}
+            projectInfo={projects.get(t.project)}
             ctx="completed"
             onToggle={onToggle}
             onReschedule={onReschedule}
+            onToggleSubtask={onToggleSubtask}
+            onDelete={onDelete}
             onReopen={onReopen}
           />
         ))
@@ -704,10 +1669,24 @@ function UnscheduledTab({
   tasks,
   onToggle,
   onReschedule,
+  onSnooze,
+  onToggleSubtask,
+  onDelete,
+  highlightIds,
+  selectedIds,
+  onSelect,
+  projects,
 }: {
   tasks: Task[];
   onToggle: (id: string) => void;
   onReschedule: (id: string, newDate: string) => void;
+  onSnooze: (id: string, until: string | null) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onDelete: (id: string) => void;
+  highlightIds: Set<string>;
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  projects: Map<string, Project>;
 }) {
   const unscheduled = tasks.filter(
     (t) => t.status !== "done" && !t.due_date
@@ -725,9 +1704,16 @@ function UnscheduledTab({
           <TaskRow
             key={t.id}
             task={t}
+            highlighted={highlightIds.has(t.id)}
+            selected={selectedIds.has(t.id)}
+            onSelect={onSelect}
+            projectInfo={projects.get(t.project)}
             ctx="unscheduled"
             onToggle={onToggle}
             onReschedule={onReschedule}
+            onSnooze={onSnooze}
+            onToggleSubtask={onToggleSubtask}
+            onDelete={onDelete}
           />
         ))
       )}
@@ -735,6 +1721,157 @@ function UnscheduledTab({
   );
 }
 
+// ─── Tab 5: Trash ─────────────────────────────────────────────────────────────
+
+function TrashTab({ onRestored }: { onRestored: (task: Task) => void }) {
+  const [trash, setTrash] = useState<Trash | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/trash")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to fetch");
+        return res.json();
+      })
+      .then((data: Trash) => {
+        if (!cancelled) setTrash(data);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function drop(kind: "tasks" | "projects", id: string) {
+    setTrash((prev) =>
+      prev
+        ? { ...prev, [kind]: (prev[kind] as { id: string }[]).filter((x) => x.id !== id) }
+        : prev
+    );
+  }
+
+  async function restoreTask(id: string) {
+    const res = await fetch(`/api/tasks/${id}/restore`, { method: "POST" });
+    if (res.ok) {
+      onRestored(await res.json());
+      drop("tasks", id);
+    }
+  }
+
+  async function restoreProject(id: string) {
+    const res = await fetch(`/api/projects/${id}/restore`, { method: "POST" });
+    if (res.ok) drop("projects", id);
+  }
+
+  async function purge(kind: "tasks" | "projects", id: string) {
+    const res = await fetch(`/api/trash/${kind}/${id}`, { method: "DELETE" });
+    if (res.ok) drop(kind, id);
+  }
+
+  async function emptyTrash() {
+    const res = await fetch("/api/trash", { method: "DELETE" });
+    if (res.ok) setTrash((prev) => (prev ? { ...prev, tasks: [], projects: [] } : prev));
+  }
+
+  if (error) return <Empty message="Could not load the trash. Please try again." />;
+  if (!trash) return <Spinner />;
+
+  const isEmpty = trash.tasks.length === 0 && trash.projects.length === 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold italic text-[#C2C0B6]">Trash</h2>
+        {!isEmpty && (
+          <button
+            onClick={emptyTrash}
+            className="text-sm text-[#C2C0B6] hover:text-red-400 transition-colors cursor-pointer"
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+      {trash.retention_days > 0 && (
+        <p className="text-xs text-[#C2C0B6] mb-4">
+          Items are permanently deleted after {trash.retention_days} days in the trash.
+        </p>
+      )}
+
+      {isEmpty ? (
+        <Empty message="Trash is empty" />
+      ) : (
+        <>
+          {trash.tasks.map((t) => (
+            <TrashRow
+              key={t.id}
+              title={t.title}
+              project={t.project}
+              deletedAt={t.deleted_at}
+              onRestore={() => restoreTask(t.id)}
+              onPurge={() => purge("tasks", t.id)}
+            />
+          ))}
+          {trash.projects.map((p) => (
+            <TrashRow
+              key={p.id}
+              title={`Project: ${p.name}`}
+              deletedAt={p.deleted_at}
+              onRestore={() => restoreProject(p.id)}
+              onPurge={() => purge("projects", p.id)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function TrashRow({
+  title,
+  project,
+  deletedAt,
+  onRestore,
+  onPurge,
+}: {
+  title: string;
+  project?: string;
+  deletedAt: string;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const timeZone = useTimeZone();
+  return (
+    <div className="flex items-start gap-4 py-4 px-2 hover:bg-white/10 hover:rounded-lg transition-all">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-white/70 leading-snug">{title}</p>
+        {project && <ProjectPill name={project} />}
+      </div>
+      <div className="flex flex-col items-end gap-2 shrink-0 mt-0.5">
+        <span className="text-xs font-semibold text-[#C2C0B6] whitespace-nowrap">
+          Deleted: {fmtStatus(datePart(deletedAt, timeZone))}
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onRestore}
+            className="text-xs font-semibold text-[#CD7253] hover:opacity-80 transition-opacity cursor-pointer"
+          >
+            Restore
+          </button>
+          <button
+            onClick={onPurge}
+            className="text-xs text-[#C2C0B6] hover:text-red-400 transition-colors cursor-pointer"
+          >
+            Delete forever
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Activity heatmap ─────────────────────────────────────────────────────────
 
 const HEATMAP_DAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
@@ -748,28 +1885,28 @@ function getActivityColor(count: number): string {
   return "#CD7253";
 }
 
-function ActivityHeatmap({ tasks }: { tasks: Task[] }) {
-  const now = new Date();
-  const [year, setYear] = useState(now.getFullYear());
-  const [month, setMonth] = useState(now.getMonth() + 1);
+function ActivityHeatmap({ tasks, today }: { tasks: Task[]; today: string }) {
+  const timeZone = useTimeZone();
+  const [todayYear, todayMonth] = today.split("-").map(Number);
+  const [year, setYear] = useState(todayYear);
+  const [month, setMonth] = useState(todayMonth);
 
   const completions = useMemo(() => {
     const map: Record<string, number> = {};
     for (const t of tasks) {
       if (t.status === "done") {
-        const day = datePart(t.updated_at);
+        const day = datePart(t.updated_at, timeZone);
         map[day] = (map[day] ?? 0) + 1;
       }
     }
     return map;
-  }, [tasks]);
+  }, [tasks, timeZone]);
 
   const daysInMonth = new Date(year, month, 0).getDate();
   const firstDayOfWeek = new Date(year, month - 1, 1).getDay();
 
-  const nowNow = new Date();
   const atMin = year === HEATMAP_MIN_YEAR && month === HEATMAP_MIN_MONTH;
-  const atMax = year === nowNow.getFullYear() && month === nowNow.getMonth() + 1;
+  const atMax = year === todayYear && month === todayMonth;
 
   function goPrev() {
     if (atMin) return;
@@ -860,6 +1997,267 @@ function ActivityHeatmap({ tasks }: { tasks: Task[] }) {
   );
 }
 
+// ─── Projects panel ───────────────────────────────────────────────────────────
+
+type ProjectEdit = { id: string; mode: "rename" | "merge" | "delete" };
+
+function ProjectsPanel({
+  projects,
+  selected,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onMerge,
+  onDelete,
+}: {
+  projects: Project[];
+  selected: string | null;
+  onSelect: (name: string | null) => void;
+  onCreate: (name: string) => void;
+  onUpdate: (project: Project, fields: Partial<Project>) => void;
+  onMerge: (source: Project, target: Project) => void;
+  onDelete: (project: Project) => void;
+}) {
+  const [creating, setCreating] = useState(false);
+  const [edit, setEdit] = useState<ProjectEdit | null>(null);
+  const [value, setValue] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const active = projects.filter((p) => !p.archived);
+  const archived = projects.filter((p) => p.archived);
+  const total = active.reduce((sum, p) => sum + p.task_count, 0);
+
+  function startEdit(next: ProjectEdit, initial = "") {
+    setCreating(false);
+    setEdit(edit?.id === next.id && edit.mode === next.mode ? null : next);
+    setValue(initial);
+  }
+
+  const inputClass =
+    "flex-1 min-w-0 rounded-lg px-3 py-1.5 outline-none border border-white/10 text-sm";
+  const inputStyle = {
+    backgroundColor: "#262624",
+    color: "#ffffff",
+    colorScheme: "dark",
+  } as const;
+  const submitClass =
+    "px-3 py-1.5 rounded-full text-xs text-white transition-opacity hover:opacity-90 cursor-pointer";
+  const actionClass =
+    "text-xs text-[#C2C0B6] hover:text-white transition-colors cursor-pointer";
+
+  function renderRow(p: Project) {
+    const isSelected = selected === p.name;
+    const editing = edit?.id === p.id ? edit.mode : null;
+    const others = projects.filter((o) => o.id !== p.id);
+
+    return (
+      <div key={p.id} className="group">
+        <div
+          className={[
+            "flex items-center gap-3 px-2 py-2 rounded-lg transition-colors",
+            isSelected ? "bg-white/10" : "hover:bg-white/5",
+          ].join(" ")}
+        >
+          <button
+            onClick={() => onSelect(isSelected ? null : p.name)}
+            title={p.description ?? p.repo_path ?? undefined}
+            className="flex-1 min-w-0 flex items-center gap-3 text-left cursor-pointer"
+          >
+            <span
+              className="w-2 h-2 rounded-full shrink-0"
+              style={{ backgroundColor: p.color ?? "#C2C0B6" }}
+            />
+            <span
+              className={`text-sm truncate ${isSelected ? "text-[#CD7253] font-semibold" : p.archived ? "text-white/40" : "text-white"}`}
+            >
+              {p.name}
+            </span>
+          </button>
+          <span className="text-xs text-[#C2C0B6] tabular-nums">{p.task_count}</span>
+          <div className="hidden group-hover:flex items-center gap-3">
+            <button className={actionClass} onClick={() => startEdit({ id: p.id, mode: "rename" }, p.name)}>
+              Rename
+            </button>
+            {others.length > 0 && (
+              <button className={actionClass} onClick={() => startEdit({ id: p.id, mode: "merge" })}>
+                Merge
+              </button>
+            )}
+            <button
+              className={actionClass}
+              onClick={() => onUpdate(p, { archived: !p.archived })}
+            >
+              {p.archived ? "Unarchive" : "Archive"}
+            </button>
+            {/* Uncategorised takes in deleted projects' tasks */}
+            {p.name !== UNCATEGORISED && (
+              <button
+                className={`${actionClass} hover:text-red-400`}
+                onClick={() => startEdit({ id: p.id, mode: "delete" })}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {editing === "rename" && (
+          <form
+            className="flex items-center gap-2 px-2 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = value.trim();
+              if (name && name !== p.name) onUpdate(p, { name });
+              setEdit(null);
+            }}
+          >
+            <input
+              value={value}
+              autoFocus
+              onChange={(e) => setValue(e.target.value)}
+              className={inputClass}
+              style={inputStyle}
+            />
+            <button type="submit" className={submitClass} style={{ backgroundColor: "#CD7253" }}>
+              Save
+            </button>
+          </form>
+        )}
+
+        {editing === "merge" && (
+          <form
+            className="flex items-center gap-2 px-2 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const target = others.find((o) => o.id === value);
+              if (target) onMerge(p, target);
+              setEdit(null);
+            }}
+          >
+            <select
+              value={value}
+              autoFocus
+              onChange={(e) => setValue(e.target.value)}
+              className={inputClass}
+              style={inputStyle}
+            >
+              <option value="" disabled>
+                Move all tasks into…
+              </option>
+              {others.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!value}
+              className={`${submitClass} disabled:opacity-40`}
+              style={{ backgroundColor: "#CD7253" }}
+            >
+              Merge
+            </button>
+          </form>
+        )}
+
+        {editing === "delete" && (
+          <div className="flex items-center gap-3 px-2 py-2">
+            <p className="flex-1 text-xs text-[#C2C0B6]">
+              Move to trash? Its tasks go to Uncategorised.
+            </p>
+            <button
+              className="text-xs font-semibold text-red-400 hover:opacity-80 transition-opacity cursor-pointer"
+              onClick={() => {
+                onDelete(p);
+                setEdit(null);
+              }}
+            >
+              Delete
+            </button>
+            <button className={actionClass} onClick={() => setEdit(null)}>
+              Cancel
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold text-[#C2C0B6] uppercase tracking-widest">
+          Projects
+        </p>
+        <button
+          onClick={() => {
+            setEdit(null);
+            setCreating((c) => !c);
+            setValue("");
+          }}
+          className="text-xs font-semibold text-[#CD7253] hover:opacity-80 transition-opacity cursor-pointer"
+        >
+          + New project
+        </button>
+      </div>
+
+      {creating && (
+        <form
+          className="flex items-center gap-2 px-2 pb-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!value.trim()) return;
+            onCreate(value.trim());
+            setCreating(false);
+          }}
+        >
+          <input
+            value={value}
+            autoFocus
+            placeholder="Project name"
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+            style={inputStyle}
+          />
+          <button type="submit" className={submitClass} style={{ backgroundColor: "#CD7253" }}>
+            Create
+          </button>
+        </form>
+      )}
+
+      <button
+        onClick={() => onSelect(null)}
+        className={[
+          "w-full flex items-center justify-between px-2 py-2 rounded-lg transition-colors cursor-pointer",
+          selected === null ? "bg-white/10" : "hover:bg-white/5",
+        ].join(" ")}
+      >
+        <span
+          className={`text-sm ${selected === null ? "text-[#CD7253] font-semibold" : "text-white"}`}
+        >
+          All projects
+        </span>
+        <span className="text-xs text-[#C2C0B6] tabular-nums">{total}</span>
+      </button>
+
+      {active.map(renderRow)}
+
+      {archived.length > 0 && (
+        <>
+          <button
+            onClick={() => setShowArchived((s) => !s)}
+            className="text-xs text-[#C2C0B6] hover:text-white transition-colors cursor-pointer px-2 mt-3 mb-1"
+          >
+            {showArchived ? "Hide" : "Show"} archived ({archived.length})
+          </button>
+          {showArchived && archived.map(renderRow)}
+        </>
+      )}
+    </div>
+  );
+}
+
 // ─── How it works modal ───────────────────────────────────────────────────────
 
 function HowItWorksModal({ onClose }: { onClose: () => void }) {
@@ -957,8 +2355,11 @@ function HowItWorksModal({ onClose }: { onClose: () => void }) {
             {[
               { action: "Check the circle", desc: "Mark a task done. A completion is recorded on the activity heatmap." },
               { action: "Click the due date", desc: "Open a reschedule picker to move the task to any date." },
+              { action: "Click the moon", desc: "Snooze a task until later today, tomorrow, next week or a date you pick. It leaves Upcoming until then." },
               { action: "Click a completed task's circle", desc: "Reopen it with a new due date — it lands back in the right tab." },
               { action: "Click Unscheduled", desc: "Set a due date inline so the task moves into your scheduled views." },
+              { action: "Shift-click tasks", desc: "Select several at once, then complete, reschedule, move or delete them together." },
+              { action: "Click a project", desc: "Show only its tasks in every tab. Hover it to rename, merge, archive or delete it." },
             ].map(({ action, desc }) => (
               <div key={action} className="flex gap-3">
                 <div className="w-1.5 h-1.5 rounded-full bg-[#CD7253] mt-2 shrink-0" />
@@ -989,6 +2390,7 @@ const TABS: { key: TabKey; label: string }[] = [
   { key: "scheduled", label: "Scheduled >7 days" },
   { key: "completed", label: "Completed" },
   { key: "unscheduled", label: "Unscheduled" },
+  { key: "trash", label: "Trash" },
 ];
 
 // ─── Page ─────────────────────────────────────────────────────────────────────
@@ -998,18 +2400,58 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState<TabKey>("upcoming");
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
-  const [toast, setToast] = useState<string | null>(null);
+  const [toast, setToast] = useState<Toast | null>(null);
   const [showHelp, setShowHelp] = useState(false);
-
-  const today = useMemo(() => localDate(), []);
+  const [query, setQuery] = useState("");
+  const [matchIds, setMatchIds] = useState<Set<string> | null>(null);
+  const [highlightIds, setHighlightIds] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectFilter, setProjectFilter] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState(BROWSER_TIME_ZONE);
+
+  const today = useMemo(() => localDate(new Date(), timeZone), [timeZone]);
   const todayPlus6 = useMemo(() => shiftDays(today, 6), [today]);
   const todayPlus7 = useMemo(() => shiftDays(today, 7), [today]);
 
+  const archivedNames = useMemo(
+    () => new Set(projects.filter((p) => p.archived).map((p) => p.name)),
+    [projects]
+  );
+
+  const visibleTasks = useMemo(
+    () =>
+      tasks.filter(
+        (t) =>
+          (!matchIds || matchIds.has(t.id)) &&
+          (projectFilter
+            ? t.project === projectFilter
+            : !archivedNames.has(t.project))
+      ),
+    [tasks, matchIds, projectFilter, archivedNames]
+  );
+
+  // Only tasks still on screen count; others may have been deleted elsewhere
+  const selectedTasks = useMemo(
+    () => tasks.filter((t) => selectedIds.has(t.id)),
+    [tasks, selectedIds]
+  );
+
+  const projectsByName = useMemo(
+    () => new Map(projects.map((p) => [p.name, p])),
+    [projects]
+  );
+
+  const projectNames = useMemo(
+    () => projects.filter((p) => !p.archived).map((p) => p.name),
+    [projects]
+  );
+
   async function fetchAll() {
     setLoading(true);
     setFetchError(null);
     try {
-      const res = await fetch("/api/tasks");
+      const res = await fetch(TASKS_URL);
       if (!res.ok) throw new Error("Failed to fetch");
       setTasks(await res.json());
     } catch {
@@ -1019,17 +2461,144 @@ export default function Home() {
     }
   }
 
+  // Reloads tasks without the spinner, e.g. after an undo touched several rows
+  async function refreshTasks() {
+    try {
+      const res = await fetch(TASKS_URL);
+      if (res.ok) setTasks(await res.json());
+    } catch {
+      // Keep current state; the next action will resync
+    }
+  }
+
+  async function refreshProjects() {
+    try {
+      const res = await fetch("/api/projects");
+      if (res.ok) setProjects(await res.json());
+    } catch {
+      // Keep current state; the next change event will resync
+    }
+  }
+
   useEffect(() => {
     fetchAll();
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Until this loads (or if it fails) dates use the browser's time zone
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((settings) => settings && setTimeZone(settings.timezone))
+      .catch(() => {});
+  }, []);
+
+  // Project colours and descriptions; a failure just leaves pills plain
+  useEffect(() => {
+    fetch("/api/projects")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setProjects)
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     if (!toast) return;
-    const id = setTimeout(() => setToast(null), 3000);
+    // Leave undoable toasts up a little longer so the button can be reached
+    const id = setTimeout(() => setToast(null), toast.mutationId ? 6000 : 3000);
     return () => clearTimeout(id);
   }, [toast]);
 
+  // Live updates, so tasks Claude adds or edits appear without a reload
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const source = new EventSource("/api/events");
+
+    source.onmessage = async (e) => {
+      const event: ChangeEvent = JSON.parse(e.data);
+
+      if (event.type === "task.created" || event.type === "task.updated") {
+        setTasks((prev) => upsertTask(prev, event.task));
+      } else if (event.type === "task.deleted") {
+        setTasks((prev) => prev.filter((t) => t.id !== event.id));
+      } else if (event.type === "tasks.changed") {
+        try {
+          const res = await fetch(TASKS_URL);
+          if (res.ok) setTasks(await res.json());
+        } catch {
+          // The next change event will try again
+        }
+      }
+
+      // Any task change can move a project's task count
+      if (event.type !== "tags.changed") {
+        try {
+          const res = await fetch("/api/projects");
+          if (res.ok) setProjects(await res.json());
+        } catch {
+          // The next change event will try again
+        }
+      }
+
+      // Briefly highlight rows that just appeared
+      if (event.type === "task.created") {
+        const { id } = event.task;
+        setHighlightIds((prev) => new Set(prev).add(id));
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          setHighlightIds((prev) => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+        }, 2500);
+        timers.add(timer);
+      }
+    };
+
+    return () => {
+      source.close();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  // Escape clears the bulk selection
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") setSelectedIds(new Set());
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Debounced server-side search; the tabs then show only the matching tasks
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+    const controller = new AbortController();
+    const id = setTimeout(async () => {
+      try {
+        const res = await fetch(`${TASKS_URL}&q=${encodeURIComponent(q)}`, {
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const found: Task[] = await res.json();
+          setMatchIds(new Set(found.map((t) => t.id)));
+        }
+      } catch {
+        // Aborted by a newer query, or offline; keep the previous results
+      }
+    }, 200);
+    return () => {
+      clearTimeout(id);
+      controller.abort();
+    };
+  }, [query]);
+
+  function handleSearch(value: string) {
+    setQuery(value);
+    if (!value.trim()) setMatchIds(null);
+  }
+
   async function handleToggle(id: string) {
     const task = tasks.find((t) => t.id === id);
     if (!task) return;
@@ -1052,8 +2621,22 @@ export default function Home() {
         body: JSON.stringify({ status: newStatus }),
       });
       if (res.ok) {
-        const updated: Task = await res.json();
-        setTasks((prev) => prev.map((t) => (t.id === id ? updated : t)));
+        // Completing a recurring task also returns its freshly created next occurrence
+        const { next_occurrence, ...updated }: Task & {
+          next_occurrence?: Task | null;
+        } = await res.json();
+        setTasks((prev) => {
+          const next = prev.map((t) => (t.id === id ? updated : t));
+          return next_occurrence ? upsertTask(next, next_occurrence) : next;
+        });
+        setToast({
+          message: next_occurrence?.due_date
+            ? `Task completed · next occurrence due ${fmtStatus(next_occurrence.due_date)}`
+            : newStatus === "done"
+              ? "Task completed"
+              : "Task marked as pending",
+          mutationId: res.headers.get(MUTATION_HEADER),
+        });
       } else {
         // Revert
         setTasks((prev) => prev.map((t) => (t.id === id ? task : t)));
@@ -1073,7 +2656,7 @@ export default function Home() {
           : t
       )
     );
-    setToast("Task reopened and rescheduled");
+    setToast({ message: "Task reopened and rescheduled", mutationId: null });
 
     try {
       const res = await fetch(`/api/tasks/${id}`, {
@@ -1084,6 +2667,10 @@ export default function Home() {
       if (res.ok) {
         const updated: Task = await res.json();
         setTasks((prev) => prev.map((t) => (t.id === id ? updated : t)));
+        setToast({
+          message: "Task reopened and rescheduled",
+          mutationId: res.headers.get(MUTATION_HEADER),
+        });
       }
     } catch {
       // Keep optimistic state; toast already shown
@@ -1095,7 +2682,7 @@ export default function Home() {
     setTasks((prev) =>
       prev.map((t) => (t.id === id ? { ...t, due_date: newDate } : t))
     );
-    setToast("Task rescheduled");
+    setToast({ message: "Task rescheduled", mutationId: null });
 
     try {
       const res = await fetch(`/api/tasks/${id}`, {
@@ -1106,124 +2693,505 @@ export default function Home() {
       if (res.ok) {
         const updated: Task = await res.json();
         setTasks((prev) => prev.map((t) => (t.id === id ? updated : t)));
+        setToast({
+          message: "Task rescheduled",
+          mutationId: res.headers.get(MUTATION_HEADER),
+        });
       }
     } catch {
       // Keep optimistic state; toast already shown
     }
   }
 
-  return (
-    <div className="min-h-screen bg-[#262624] p-10">
-
-      {toast && <RescheduleToast message={toast} />}
-      {showHelp && <HowItWorksModal onClose={() => setShowHelp(false)} />}
-
-      {/* ── Header — full width ── */}
-      <div className="flex items-start justify-between pb-8">
-        <div className="flex flex-col gap-2">
-          <h1 className="text-2xl font-semibold text-white">
-            Claude Action Center
-          </h1>
-          <p className="text-base text-[#C2C0B6]">
-            Manage your action items across multiple Claude code projects
-          </p>
-        </div>
-        <button
-          onClick={() => setShowHelp(true)}
-          className="flex items-center gap-2 text-[#CD7253] shrink-0 ml-8 mt-1 cursor-pointer hover:opacity-80 transition-opacity"
-        >
-          <HelpIcon />
-          <span className="text-base font-semibold whitespace-nowrap">
-            How does it work
-          </span>
-        </button>
-      </div>
+  // until is a date, a "YYYY-MM-DD HH:MM" moment, or null to wake the task
+  async function handleSnooze(id: string, until: string | null) {
+    const message = until ? `Snoozed until ${fmtSnooze(until)}` : "Task woken";
+    // Optimistic update; the server sets the status to match
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === id
+          ? { ...t, status: until ? "snoozed" : "pending", snoozed_until: until }
+          : t
+      )
+    );
+    setToast({ message, mutationId: null });
 
-      {/* ── Main content area ── */}
-      <div className="flex items-start gap-16">
+    try {
+      const res = await fetch(`/api/tasks/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ snoozed_until: until }),
+      });
+      if (res.ok) {
+        const updated: Task = await res.json();
+        setTasks((prev) => prev.map((t) => (t.id === id ? updated : t)));
+        setToast({ message, mutationId: res.headers.get(MUTATION_HEADER) });
+      } else {
+        setToast({ message: await errorMessage(res, "Failed to snooze task"), mutationId: null });
+        refreshTasks();
+      }
+    } catch {
+      // Keep optimistic state; toast already shown
+    }
+  }
 
-        <div className="w-1/2 shrink-0">
+  async function handleToggleSubtask(taskId: string, subtaskId: string) {
+    const task = tasks.find((t) => t.id === taskId);
+    const subtask = task?.subtasks.find((s) => s.id === subtaskId);
+    if (!task || !subtask) return;
+
+    const setDone = (done: boolean) =>
+      setTasks((prev) =>
+        prev.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                subtasks: t.subtasks.map((s) =>
+                  s.id === subtaskId ? { ...s, done } : s
+                ),
+              }
+            : t
+        )
+      );
 
-        {/* ── Tab navigation ── */}
-        <div className="border-b border-white/10">
-          <div className="flex w-full">
-            {TABS.map(({ key, label }) => (
-              <button
-                key={key}
-                onClick={() => setActiveTab(key)}
-                className={[
-                  "flex-1 text-center py-3 text-base font-semibold border-b-2 -mb-px transition-colors whitespace-nowrap cursor-pointer",
-                  activeTab === key
-                    ? "text-[#CD7253] border-[#CD7253]"
-                    : "text-[#C2C0B6] border-transparent hover:text-white",
-                ].join(" ")}
-              >
-                {label}
-              </button>
-            ))}
+    // Optimistic update
+    setDone(!subtask.done);
+
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ done: !subtask.done }),
+      });
+      if (!res.ok) setDone(subtask.done);
+    } catch {
+      // Revert on network error
+      setDone(subtask.done);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return;
+
+    // Optimistic update
+    setTasks((prev) => prev.filter((t) => t.id !== id));
+    setToast({ message: "Task moved to trash", mutationId: null });
+
+    try {
+      const res = await fetch(`/api/tasks/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        setToast({
+          message: "Task moved to trash",
+          mutationId: res.headers.get(MUTATION_HEADER),
+        });
+      } else {
+        setTasks((prev) => [task, ...prev]);
+      }
+    } catch {
+      // Revert on network error
+      setTasks((prev) => [task, ...prev]);
+    }
+  }
+
+  function handleSelect(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }
+
+  async function handleBulk(action: BulkAction, value?: string | null) {
+    const ids = selectedTasks.map((t) => t.id);
+    if (ids.length === 0) return;
+    const selected = new Set(ids);
+    const count = `${ids.length} task${ids.length === 1 ? "" : "s"}`;
+    const message =
+      action === "delete"
+        ? `${count} moved to trash`
+        : action === "project"
+          ? `${count} moved to ${value}`
+          : action === "due_date"
+            ? value
+              ? `${count} rescheduled`
+              : `${count} unscheduled`
+            : value === "done"
+              ? `${count} completed`
+              : `${count} marked as pending`;
+
+    // Optimistic update
+    setSelectedIds(new Set());
+    setTasks((prev) =>
+      action === "delete"
+        ? prev.filter((t) => !selected.has(t.id))
+        : prev.map((t) =>
+            selected.has(t.id)
+              ? {
+                  ...t,
+                  ...(action === "status" ? { status: value! } : {}),
+                  ...(action === "project" ? { project: value! } : {}),
+                  ...(action === "due_date" ? { due_date: value ?? null } : {}),
+                  updated_at: new Date().toISOString(),
+                }
+              : t
+          )
+    );
+    setToast({ message, mutationId: null });
+
+    try {
+      const res = await fetch("/api/tasks/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, action, value }),
+      });
+      if (!res.ok) throw new Error("Failed to update tasks");
+      // Completing recurring tasks also returns their next occurrences
+      const { updated, created }: { updated: Task[]; created: Task[] } =
+        await res.json();
+      setTasks((prev) => [...updated, ...created].reduce(upsertTask, prev));
+      setToast({ message, mutationId: res.headers.get(MUTATION_HEADER) });
+    } catch {
+      // Nothing was applied server-side; resync
+      await refreshTasks();
+      setToast({ message: "Couldn't update those tasks", mutationId: null });
+    }
+  }
+
+  async function handleUndo(mutationId: string) {
+    setToast(null);
+    try {
+      const res = await fetch("/api/undo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mutation_id: mutationId }),
+      });
+      if (!res.ok) throw new Error("Failed to undo");
+      await refreshTasks();
+      setToast({ message: "Change undone", mutationId: null });
+    } catch {
+      setToast({ message: "Couldn't undo that change", mutationId: null });
+    }
+  }
+
+  async function handleCreateProject(name: string) {
+    try {
+      const res = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) {
+        setToast({
+          message: await errorMessage(res, "Couldn't create that project"),
+          mutationId: null,
+        });
+        return;
+      }
+      await refreshProjects();
+      setToast({ message: `Project ${name} created`, mutationId: null });
+    } catch {
+      setToast({ message: "Couldn't create that project", mutationId: null });
+    }
+  }
+
+  async function handleUpdateProject(project: Project, fields: Partial<Project>) {
+    const renamed = fields.name !== undefined && fields.name !== project.name;
+    const message = renamed
+      ? `Renamed ${project.name} to ${fields.name}`
+      : fields.archived
+        ? `${project.name} archived`
+        : fields.archived === false
+          ? `${project.name} unarchived`
+          : `${project.name} updated`;
+
+    // Optimistic update
+    setProjects((prev) =>
+      prev.map((p) => (p.id === project.id ? { ...p, ...fields } : p))
+    );
+    if (renamed) {
+      setTasks((prev) =>
+        prev.map((t) =>
+          t.project === project.name ? { ...t, project: fields.name! } : t
+        )
+      );
+      setProjectFilter((f) => (f === project.name ? fields.name! : f));
+    }
+
+    try {
+      const res = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(fields),
+      });
+      if (!res.ok) {
+        setToast({
+          message: await errorMessage(res, "Couldn't update that project"),
+          mutationId: null,
+        });
+        if (renamed) {
+          setProjectFilter((f) => (f === fields.name ? project.name : f));
+        }
+        await Promise.all([refreshProjects(), refreshTasks()]);
+        return;
+      }
+      setToast({ message, mutationId: null });
+    } catch {
+      setToast({ message: "Couldn't update that project", mutationId: null });
+      await Promise.all([refreshProjects(), refreshTasks()]);
+    }
+  }
+
+  // Moves every task into `target` and trashes `source`. Undo moves the
+  // tasks back, which also restores the source project
+  async function handleMergeProject(source: Project, target: Project) {
+    const message = `Merged ${source.name} into ${target.name}`;
+
+    // Optimistic update
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.project === source.name ? { ...t, project: target.name } : t
+      )
+    );
+    setProjects((prev) =>
+      prev
+        .filter((p) => p.id !== source.id)
+        .map((p) =>
+          p.id === target.id
+            ? { ...p, task_count: p.task_count + source.task_count }
+            : p
+        )
+    );
+    setProjectFilter((f) => (f === source.name ? target.name : f));
+    setToast({ message, mutationId: null });
+
+    try {
+      const res = await fetch(`/api/projects/${source.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target_id: target.id }),
+      });
+      if (!res.ok) throw new Error("Failed to merge projects");
+      setToast({ message, mutationId: res.headers.get(MUTATION_HEADER) });
+    } catch {
+      await Promise.all([refreshProjects(), refreshTasks()]);
+      setToast({ message: "Couldn't merge those projects", mutationId: null });
+    }
+  }
+
+  async function handleDeleteProject(project: Project) {
+    // Optimistic update: the server files its tasks under Uncategorised
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.project === project.name ? { ...t, project: UNCATEGORISED } : t
+      )
+    );
+    setProjects((prev) => prev.filter((p) => p.id !== project.id));
+    setProjectFilter((f) => (f === project.name ? null : f));
+
+    try {
+      const res = await fetch(`/api/projects/${project.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete project");
+      setToast({
+        message: `${project.name} moved to trash`,
+        mutationId: res.headers.get(MUTATION_HEADER),
+      });
+    } catch {
+      await Promise.all([refreshProjects(), refreshTasks()]);
+      setToast({ message: "Couldn't delete that project", mutationId: null });
+    }
+  }
+
+  return (
+    <TimeZoneContext value={timeZone}>
+      <div className="min-h-screen bg-[#262624] p-10">
+
+        {toast && (
+          <RescheduleToast
+            message={toast.message}
+            onUndo={
+              toast.mutationId
+                ? () => handleUndo(toast.mutationId!)
+                : undefined
+            }
+          />
+        )}
+        {showHelp && <HowItWorksModal onClose={() => setShowHelp(false)} />}
+        {selectedTasks.length > 0 && (
+          <BulkActionBar
+            count={selectedTasks.length}
+            allDone={selectedTasks.every((t) => t.status === "done")}
+            projects={projectNames}
+            onApply={handleBulk}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        {/* ── Header — full width ── */}
+        <div className="flex items-start justify-between pb-8">
+          <div className="flex flex-col gap-2">
+            <h1 className="text-2xl font-semibold text-white">
+              Claude Action Center
+            </h1>
+            <p className="text-base text-[#C2C0B6]">
+              Manage your action items across multiple Claude code projects
+            </p>
           </div>
+          <button
+            onClick={() => setShowHelp(true)}
+            className="flex items-center gap-2 text-[#CD7253] shrink-0 ml-8 mt-1 cursor-pointer hover:opacity-80 transition-opacity"
+          >
+            <HelpIcon />
+            <span className="text-base font-semibold whitespace-nowrap">
+              How does it work
+            </span>
+          </button>
         </div>
 
-        {/* ── Tab content ── */}
-        <div className="mt-8">
-          {loading ? (
-            <Spinner />
-          ) : fetchError ? (
-            <div className="flex flex-col items-center gap-4 py-12">
-              <p className="text-sm text-[#C2C0B6]">{fetchError}</p>
-              <button
-                onClick={fetchAll}
-                className="text-sm font-semibold text-[#CD7253] hover:underline"
-              >
-                Try again
-              </button>
-            </div>
-          ) : (
-            <div key={activeTab} className="animate-fade-in">
-              {activeTab === "upcoming" && (
-                <UpcomingTab
-                  tasks={tasks}
-                  onToggle={handleToggle}
-                  onReschedule={handleReschedule}
-                  today={today}
-                  todayPlus6={todayPlus6}
-                />
-              )}
-              {activeTab === "scheduled" && (
-                <ScheduledTab
-                  tasks={tasks}
-                  onToggle={handleToggle}
-                  onReschedule={handleReschedule}
-                  todayPlus7={todayPlus7}
-                />
-              )}
-              {activeTab === "completed" && (
-                <CompletedTab
-                  tasks={tasks}
-                  onToggle={handleToggle}
-                  onReschedule={handleReschedule}
-                  onReopen={handleReopen}
-                />
-              )}
-              {activeTab === "unscheduled" && (
-                <UnscheduledTab
-                  tasks={tasks}
-                  onToggle={handleToggle}
-                  onReschedule={handleReschedule}
-                />
-              )}
+        {/* ── Main content area ── */}
+        <div className="flex items-start gap-16">
+
+          <div className="w-1/2 shrink-0">
+
+          {/* ── Search ── */}
+          <SearchBox
+            value={query}
+            matchCount={matchIds ? visibleTasks.length : null}
+            onChange={handleSearch}
+          />
+
+          {/* ── Tab navigation ── */}
+          <div className="border-b border-white/10">
+            <div className="flex w-full">
+              {TABS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => {
+                    setActiveTab(key);
+                    setSelectedIds(new Set());
+                  }}
+                  className={[
+                    "flex-1 text-center py-3 text-base font-semibold border-b-2 -mb-px transition-colors whitespace-nowrap cursor-pointer",
+                    activeTab === key
+                      ? "text-[#CD7253] border-[#CD7253]"
+                      : "text-[#C2C0B6] border-transparent hover:text-white",
+                  ].join(" ")}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
-          )}
-        </div>
+          </div>
 
-        </div>
+          {/* ── Tab content ── */}
+          <div className="mt-8">
+            {loading ? (
+              <Spinner />
+            ) : fetchError ? (
+              <div className="flex flex-col items-center gap-4 py-12">
+                <p className="text-sm text-[#C2C0B6]">{fetchError}</p>
+                <button
+                  onClick={fetchAll}
+                  className="text-sm font-semibold text-[#CD7253] hover:underline"
+                >
+                  Try again
+                </button>
+              </div>
+            ) : (
+              <div key={activeTab} className="animate-fade-in">
+                {activeTab === "upcoming" && (
+                  <UpcomingTab
+                    tasks={visibleTasks}
+                    onToggle={handleToggle}
+                    onReschedule={handleReschedule}
+                    onSnooze={handleSnooze}
+                    onToggleSubtask={handleToggleSubtask}
+                    onDelete={handleDelete}
+                    highlightIds={highlightIds}
+                    selectedIds={selectedIds}
+                    onSelect={handleSelect}
+                    projects={projectsByName}
+                    today={today}
+                    todayPlus6={todayPlus6}
+                  />
+                )}
+                {activeTab === "scheduled" && (
+                  <ScheduledTab
+                    tasks={visibleTasks}
+                    onToggle={handleToggle}
+                    onReschedule={handleReschedule}
+                    onSnooze={handleSnooze}
+                    onToggleSubtask={handleToggleSubtask}
+                    onDelete={handleDelete}
+                    highlightIds={highlightIds}
+                    selectedIds={selectedIds}
+                    onSelect={handleSelect}
+                    projects={projectsByName}
+                    todayPlus7={todayPlus7}
+                  />
+                )}
+                {activeTab === "completed" && (
+                  <CompletedTab
+                    tasks={visibleTasks}
+                    onToggle={handleToggle}
+                    onReschedule={handleReschedule}
+                    onToggleSubtask={handleToggleSubtask}
+                    onDelete={handleDelete}
+                    highlightIds={highlightIds}
+                    selectedIds={selectedIds}
+                    onSelect={handleSelect}
+                    projects={projectsByName}
+                    onReopen={handleReopen}
+                  />
+                )}
+                {activeTab === "unscheduled" && (
+                  <UnscheduledTab
+                    tasks={visibleTasks}
+                    onToggle={handleToggle}
+                    onReschedule={handleReschedule}
+                    onSnooze={handleSnooze}
+                    onToggleSubtask={handleToggleSubtask}
+                    onDelete={handleDelete}
+                    highlightIds={highlightIds}
+                    selectedIds={selectedIds}
+                    onSelect={handleSelect}
+                    projects={projectsByName}
+                  />
+                )}
+                {activeTab === "trash" && (
+                  <TrashTab
+                    onRestored={(task) => setTasks((prev) => upsertTask(prev, task))}
+                  />
+                )}
+              </div>
+            )}
+          </div>
 
-        {/* ── Activity heatmap ── */}
-        <div className="ml-auto pt-14 w-[400px] shrink-0">
-          <ActivityHeatmap tasks={tasks} />
-        </div>
+          </div>
 
+          {/* ── Activity heatmap ── */}
+          <div className="ml-auto pt-14 w-[400px] shrink-0">
+            <ActivityHeatmap tasks={tasks} today={today} />
+
+            {/* ── Projects ── */}
+            <div className="mt-12">
+              <ProjectsPanel
+                projects={projects}
+                selected={projectFilter}
+                onSelect={(name) => {
+                  setProjectFilter(name);
+                  setSelectedIds(new Set());
+                }}
+                onCreate={handleCreateProject}
+                onUpdate={handleUpdateProject}
+                onMerge={handleMergeProject}
+                onDelete={handleDeleteProject}
+              />
+            </div>
+          </div>
+
+        </div>
       </div>
-    </div>
+    </TimeZoneContext>
   );
 }
@@ -1,26 +1,92 @@
+import type { NextRequest } from "next/server";
+import {
+  validate,
+  type FieldErrors,
+  type Output,
+  type Schema,
+  type Validated,
+} from "action-center-schemas";
+import { FieldError, ServiceError } from "action-center-core/errors";
+import type { Actor } from "action-center-core/history";
+
+export {
+  DEFAULT_PRIORITY,
+  VALID_PRIORITIES,
+  VALID_STATUSES,
+  type TaskPriority,
+  type TaskStatus,
+} from "action-center-schemas";
+
+// Paged lists report how many items there are across every page
+export const TOTAL_COUNT_HEADER = "X-Total-Count";
+
+export const MUTATION_HEADER = "X-Mutation-Id";
+
+/**
+ * Mutations made by the MCP server carry an `X-Actor: claude` header,
+ * mirroring the `source` field on tasks Claude creates.
+ */
+export function requestActor(request: NextRequest): Actor {
+  return request.headers.get("x-actor") === "claude" ? "claude" : "manual";
+}
+
+// Changes that can be undone name the mutation to undo
+export function mutationHeaders(mutationId: string | null): HeadersInit {
+  return mutationId ? { [MUTATION_HEADER]: mutationId } : {};
+}
+
 export function errorResponse(message: string, status: number): Response {
   return Response.json({ error: message }, { status });
 }
 
-export const VALID_STATUSES = [
-  "pending",
-  "in_progress",
-  "done",
-  "snoozed",
-] as const;
-
-export type TaskStatus = (typeof VALID_STATUSES)[number];
-
-export function resolveSnooze<T extends {
-  status: string;
-  snoozed_until: string | null;
-}>(task: T): T {
-  if (
-    task.status === "snoozed" &&
-    task.snoozed_until !== null &&
-    task.snoozed_until < new Date().toISOString().split("T")[0]
-  ) {
-    return { ...task, status: "pending" };
+// 400 naming each offending field, alongside the usual `error` message
+function validationResponse(error: string, fields: FieldErrors): Response {
+  return Response.json({ error, fields }, { status: 400 });
+}
+
+/** A 400 for one field that passed the schema but failed a deeper check. */
+export function fieldError(field: string, message: string): Response {
+  return validationResponse(`Invalid ${field}: ${message}`, {
+    [field]: message,
+  });
+}
+
+/**
+ * The response for a service's refusal. Anything else thrown is unexpected,
+ * and reported as a 500 with `fallback` as the message.
+ */
+export function serviceErrorResponse(err: unknown, fallback: string): Response {
+  if (err instanceof FieldError) return fieldError(err.field, err.reason);
+  if (err instanceof ServiceError) return errorResponse(err.message, err.status);
+  return errorResponse(fallback, 500);
+}
+
+type Parsed<T> = { ok: true; data: T } | { ok: false; response: Response };
+
+function toParsed<T>(result: Validated<T>): Parsed<T> {
+  return result.ok
+    ? { ok: true, data: result.data }
+    : { ok: false, response: validationResponse(result.error, result.fields) };
+}
+
+/** Reads and validates a JSON request body against a shared schema. */
+export async function parseBody<S extends Schema>(
+  request: Request,
+  schema: S
+): Promise<Parsed<Output<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, response: errorResponse("Invalid JSON body", 400) };
   }
-  return task;
+  return toParsed(validate(schema, body));
+}
+
+/** Validates a query string against a shared schema. */
+export function parseQuery<S extends Schema>(
+  searchParams: URLSearchParams,
+  schema: S
+): Parsed<Output<S>> {
+  return toParsed(validate(schema, Object.fromEntries(searchParams)));
 }
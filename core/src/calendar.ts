@@ -0,0 +1,23 @@
+// Arithmetic on calendar dates (YYYY-MM-DD), shared by due date parsing and
+// recurrence rules. Dates are handled as UTC midnights, so there are no time
+// zones or daylight saving changes to trip over.
+
+export function toUTC(s: string): Date {
+  const [y, m, d] = s.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+export function toDateString(d: Date): string {
+  return d.toISOString().split("T")[0];
+}
+
+export function addDays(s: string, n: number): string {
+  const d = toUTC(s);
+  d.setUTCDate(d.getUTCDate() + n);
+  return toDateString(d);
+}
+
+/** The number of days in a month, with `monthIndex` counted from 0. */
+export function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
@@ -0,0 +1,334 @@
+import { addDays, daysInMonth, toDateString, toUTC } from "./calendar";
+
+// Due dates are stored as calendar days (YYYY-MM-DD), with an optional time
+// of day (HH:MM) alongside, both in the configured time zone. The API also
+// accepts phrases like "tomorrow", "next Friday", "in 2 weeks" or "end of
+// month", resolved against today's date in that zone.
+
+export class DateParseError extends Error {}
+
+/**
+ * The time zone relative dates are resolved in: ACTION_CENTER_TIMEZONE if
+ * set (an IANA name such as "Europe/London"), otherwise the server's own.
+ */
+export function appTimeZone(): string {
+  const zone = process.env.ACTION_CENTER_TIMEZONE;
+  if (!zone) return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    throw new DateParseError(`Unknown time zone "${zone}"`);
+  }
+}
+
+/**
+ * The calendar date `instant` falls on in `timeZone`. The server and the web
+ * app both go through this, so they agree on which day "today" is.
+ */
+export function calendarDate(instant: Date, timeZone: string = appTimeZone()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/** The 24-hour time of day (HH:MM) at `instant` in `timeZone`. */
+export function clockTime(instant: Date, timeZone: string = appTimeZone()): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(instant);
+}
+
+/** Today's calendar date in `timeZone`. */
+export function todayIn(timeZone: string = appTimeZone()): string {
+  return calendarDate(new Date(), timeZone);
+}
+
+// ─── Date arithmetic (YYYY-MM-DD, calendar days only) ─────────────────────────
+
+// Clamps to the end of shorter months: Jan 31 + 1 month is Feb 28 (or 29)
+function addMonths(s: string, n: number): string {
+  const d = toUTC(s);
+  const monthIndex = d.getUTCMonth() + n;
+  const year = d.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const last = daysInMonth(year, month);
+  return toDateString(new Date(Date.UTC(year, month, Math.min(d.getUTCDate(), last))));
+}
+
+function isCalendarDate(y: number, m: number, d: number): boolean {
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return (
+    date.getUTCFullYear() === y &&
+    date.getUTCMonth() === m - 1 &&
+    date.getUTCDate() === d
+  );
+}
+
+// Weeks start on Monday, as they do for recurrence rules
+function startOfWeek(s: string): string {
+  return addDays(s, -((toUTC(s).getUTCDay() + 6) % 7));
+}
+
+// ─── Phrase parsing ───────────────────────────────────────────────────────────
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+function parseCount(word: string): number | null {
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+function shift(today: string, count: number, unit: string): string {
+  switch (unit.replace(/s$/, "")) {
+    case "day":
+      return addDays(today, count);
+    case "week":
+      return addDays(today, 7 * count);
+    case "month":
+      return addMonths(today, count);
+    default:
+      return addMonths(today, 12 * count);
+  }
+}
+
+// "Friday" and "this Friday" are the next Friday on or after today; "next
+// Friday" is the Friday of next week
+function weekday(today: string, day: number, next: boolean): string {
+  if (next) return addDays(startOfWeek(today), 7 + ((day + 6) % 7));
+  return addDays(today, (day - toUTC(today).getUTCDay() + 7) % 7);
+}
+
+// "March 3" without a year is the next March 3rd on or after today, and
+// "Feb 29" the next one there is, up to eight years on
+function monthDay(today: string, month: number, day: number, year?: number): string {
+  const thisYear = Number(today.slice(0, 4));
+  const years =
+    year !== undefined
+      ? [year]
+      : Array.from({ length: 9 }, (_, i) => thisYear + i);
+  for (const y of years) {
+    if (!isCalendarDate(y, month, day)) continue;
+    const date = toDateString(new Date(Date.UTC(y, month - 1, day)));
+    if (year !== undefined || date >= today) return date;
+  }
+  throw new DateParseError(`${day} is not a day in that month`);
+}
+
+// ─── Times of day ─────────────────────────────────────────────────────────────
+
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?(?: ?([ap])\.?m\.?)?$/;
+
+/**
+ * Normalises a time of day to 24-hour HH:MM. Accepts "17:30", "9:05",
+ * "5pm", "5:30 pm", "noon" and "midnight".
+ */
+export function parseDueTime(input: string): string {
+  const text = input.trim().toLowerCase();
+  if (text === "noon" || text === "midday") return "12:00";
+  if (text === "midnight") return "00:00";
+
+  const match = text.match(TIME_PATTERN);
+  if (match) {
+    const [, h, m = "00", meridiem] = match;
+    let hour = Number(h);
+    const minute = Number(m);
+    const valid = meridiem
+      ? hour >= 1 && hour <= 12 && minute < 60
+      : hour < 24 && minute < 60 && match[2] !== undefined;
+    if (valid) {
+      if (meridiem) hour = (hour % 12) + (meridiem === "p" ? 12 : 0);
+      return `${String(hour).padStart(2, "0")}:${m}`;
+    }
+  }
+
+  throw new DateParseError(
+    `Could not understand the time "${input}". Use HH:MM (24-hour) or a time like "5pm"`
+  );
+}
+
+export type Due = { date: string; time: string | null };
+
+// A time needs minutes or am/pm, so "march 3" stays a date, unless it
+// follows "at": "tomorrow at 9" is 09:00
+const TIME_OF_DAY = String.raw`\d{1,2}:\d{2}|\d{1,2}(?::\d{2})? ?[ap]\.?m\.?|noon|midday|midnight`;
+const TIME = String.raw`(?:at )?(?:${TIME_OF_DAY})|at \d{1,2}`;
+
+function timeOf(match: string): string {
+  const time = match.replace(/^at /i, "");
+  return parseDueTime(/^\d{1,2}$/.test(time) ? `${time}:00` : time);
+}
+
+/**
+ * Like parseDueDate, but also accepts a time before or after the day:
+ * "tomorrow at 9", "friday 5pm", "1pm tomorrow", "2026-03-01 17:00" or
+ * "2026-03-01T17:00". A time alone, such as "noon" or "at 5pm", is due
+ * today.
+ */
+export function parseDue(input: string, today: string = todayIn()): Due {
+  const text = input.trim();
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(?::00)?$/);
+  if (iso) return { date: parseDueDate(iso[1], today), time: parseDueTime(iso[2]) };
+
+  // A time on its own is today at that time
+  const alone = text.match(new RegExp(`^(${TIME})$`, "i"));
+  if (alone) return { date: today, time: timeOf(alone[1]) };
+
+  const timeFirst = text.match(new RegExp(`^(${TIME}),? (?:on )?(.+)$`, "i"));
+  const timeLast = text.match(new RegExp(`^(.+?),? (${TIME})$`, "i"));
+  const splits = [
+    timeFirst && { day: timeFirst[2], time: timeFirst[1] },
+    timeLast && { day: timeLast[1], time: timeLast[2] },
+  ];
+  for (const split of splits) {
+    if (!split) continue;
+    try {
+      return { date: parseDueDate(split.day, today), time: timeOf(split.time) };
+    } catch {
+      // Try the other split, then read the whole input as a date
+    }
+  }
+  return { date: parseDueDate(text, today), time: null };
+}
+
+// ─── Snoozes ──────────────────────────────────────────────────────────────────
+
+/**
+ * Normalises when a snooze ends: a day ("monday", "2026-03-02") as
+ * YYYY-MM-DD, or a moment ("today 5pm") as "YYYY-MM-DD HH:MM".
+ */
+export function parseSnoozeUntil(input: string, today: string = todayIn()): string {
+  const { date, time } = parseDue(input, today);
+  return time ? `${date} ${time}` : date;
+}
+
+/** `instant` as "YYYY-MM-DD HH:MM" in `timeZone`, the form snoozes use. */
+export function minuteIn(instant: Date, timeZone: string = appTimeZone()): string {
+  return `${calendarDate(instant, timeZone)} ${clockTime(instant, timeZone)}`;
+}
+
+/**
+ * Whether a snooze set by parseSnoozeUntil is over at `instant`. One until
+ * a day ends as that day starts, so "snooze until Monday" brings the task
+ * back on Monday. A bare day sorts before every minute of itself, so one
+ * string comparison covers both forms (and works in SQL too).
+ */
+export function snoozeEnded(
+  until: string,
+  instant: Date = new Date(),
+  timeZone: string = appTimeZone()
+): boolean {
+  return until <= minuteIn(instant, timeZone);
+}
+
+// ─── Due dates ────────────────────────────────────────────────────────────────
+
+/**
+ * Normalises a due date to YYYY-MM-DD. Accepts ISO dates and phrases such
+ * as "today", "tomorrow", "friday", "next friday", "in 2 weeks",
+ * "next month", "end of week", "end of month" or "march 3rd".
+ */
+export function parseDueDate(input: string, today: string = todayIn()): string {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ").replace(/,/g, "");
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const [y, m, d] = iso.slice(1).map(Number);
+    if (!isCalendarDate(y, m, d)) {
+      throw new DateParseError(`${input} is not a calendar date`);
+    }
+    return text;
+  }
+
+  switch (text) {
+    case "today":
+    case "tonight":
+      return today;
+    case "tomorrow":
+      return addDays(today, 1);
+    case "day after tomorrow":
+      return addDays(today, 2);
+    case "next week":
+      return addDays(startOfWeek(today), 7);
+    case "next month":
+      return `${addMonths(today, 1).slice(0, 8)}01`;
+    case "next year":
+      return `${Number(today.slice(0, 4)) + 1}-01-01`;
+    case "end of week":
+    case "end of the week":
+      return addDays(startOfWeek(today), 6);
+    case "end of month":
+    case "end of the month":
+      return addDays(`${addMonths(today, 1).slice(0, 8)}01`, -1);
+    case "end of year":
+    case "end of the year":
+      return `${today.slice(0, 4)}-12-31`;
+  }
+
+  const relative = text.match(/^in (\w+) (days?|weeks?|months?|years?)$/);
+  if (relative) {
+    const count = parseCount(relative[1]);
+    if (count !== null) return shift(today, count, relative[2]);
+  }
+
+  const day = text.match(/^(this |next )?(\w+)$/);
+  if (day && day[2] in WEEKDAYS) {
+    return weekday(today, WEEKDAYS[day[2]], day[1] === "next ");
+  }
+
+  // "march 3", "march 3rd 2027", "3 march", "3rd of march 2027"
+  const named =
+    text.match(/^(\w+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/) ??
+    text.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? (\w+)(?: (\d{4}))?$/);
+  if (named) {
+    const [a, b, year] = named.slice(1);
+    const [monthName, dayOfMonth] = /^\d/.test(a) ? [b, a] : [a, b];
+    if (monthName in MONTHS) {
+      return monthDay(
+        today,
+        MONTHS[monthName],
+        Number(dayOfMonth),
+        year ? Number(year) : undefined
+      );
+    }
+  }
+
+  throw new DateParseError(
+    `Could not understand "${input}". Use YYYY-MM-DD or a phrase like "tomorrow", "next Friday", "in 2 weeks" or "end of month"`
+  );
+}
@@ -0,0 +1,38 @@
+// Services throw these for requests they refuse, with the HTTP status that
+// fits. The API turns them into error responses, and the MCP server's
+// embedded mode into the same error bodies.
+
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+/** A field that passed the shared schema but failed a deeper check. */
+export class FieldError extends ServiceError {
+  constructor(
+    readonly field: string,
+    readonly reason: string
+  ) {
+    super(`Invalid ${field}: ${reason}`, 400);
+  }
+}
+
+/** Prisma's error for an update or delete whose row has gone. */
+export function isPrismaNotFound(err: unknown): boolean {
+  return prismaCode(err) === "P2025";
+}
+
+/** Prisma's error for a write that breaks a unique constraint. */
+export function isUniqueViolation(err: unknown): boolean {
+  return prismaCode(err) === "P2002";
+}
+
+function prismaCode(err: unknown): string | undefined {
+  return err instanceof Error && "code" in err
+    ? (err as { code: string }).code
+    : undefined;
+}
@@ -0,0 +1,48 @@
+import { EventEmitter } from "node:events";
+import { db } from "./db";
+import { serializeTask, TASK_INCLUDE, type TaskResponse } from "./responses";
+
+// In-process change feed behind GET /api/events. Every write publishes here,
+// so changes made through the MCP server reach open browser tabs without a
+// reload. Each process has its own feed: in embedded mode the MCP server
+// hears only its own changes.
+
+export type ChangeEvent =
+  | { type: "task.created"; task: TaskResponse }
+  | { type: "task.updated"; task: TaskResponse }
+  | { type: "task.deleted"; id: string }
+  // Changes touching many tasks at once; clients should refetch
+  | { type: "tasks.changed" }
+  | { type: "projects.changed" }
+  | { type: "tags.changed" };
+
+const globalForEvents = globalThis as unknown as {
+  changeFeed: EventEmitter | undefined;
+};
+
+const feed = globalForEvents.changeFeed ?? new EventEmitter();
+feed.setMaxListeners(0);
+
+if (process.env.NODE_ENV !== "production") {
+  globalForEvents.changeFeed = feed;
+}
+
+export function publish(event: ChangeEvent): void {
+  feed.emit("change", event);
+}
+
+export function subscribe(listener: (event: ChangeEvent) => void): () => void {
+  feed.on("change", listener);
+  return () => {
+    feed.off("change", listener);
+  };
+}
+
+/** Re-reads a task (e.g. after its checklist changed) and publishes it. */
+export async function publishTask(id: string): Promise<void> {
+  const task = await db.task.findFirst({
+    where: { id, deleted_at: null },
+    include: TASK_INCLUDE,
+  });
+  if (task) publish({ type: "task.updated", task: serializeTask(task) });
+}
@@ -0,0 +1,166 @@
+import type { Prisma, Subtask, Tag, Task } from "@prisma/client";
+
+export const TASK_EVENT_TYPES = [
+  "created",
+  "updated",
+  "status_changed",
+  "rescheduled",
+  "deleted",
+  "restored",
+  "purged",
+] as const;
+
+export type TaskEventType = (typeof TASK_EVENT_TYPES)[number];
+
+// "system" is the app acting on its own, e.g. waking a task whose snooze ended
+export type Actor = "claude" | "manual" | "system";
+
+export type FieldChange = { from: string | null; to: string | null };
+
+const TRACKED_FIELDS = [
+  "title",
+  "notes",
+  "project_id",
+  "status",
+  "priority",
+  "due_date",
+  "due_time",
+  "snoozed_until",
+  "recurrence",
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+type TrackedValues = Partial<Record<TrackedField, string | null>>;
+
+// Fields that get their own event type; everything else is a plain "updated"
+const FIELD_EVENT_TYPES: Partial<Record<TrackedField, TaskEventType>> = {
+  status: "status_changed",
+  due_date: "rescheduled",
+  due_time: "rescheduled",
+};
+
+/**
+ * What a change returns, along with the mutation ID that undoes it, or null
+ * when it left nothing to undo.
+ */
+export type Mutation<T> = { result: T; mutationId: string | null };
+
+/**
+ * Stamps the events written by one request with a shared mutation ID, the
+ * unit the undo stack reverses. Reversals themselves are not undoable.
+ */
+export function inMutation(
+  mutationId: string,
+  events: Prisma.TaskEventCreateManyInput[],
+  undoable = true
+): Prisma.TaskEventCreateManyInput[] {
+  return events.map((e) => ({ ...e, mutation_id: mutationId, undoable }));
+}
+
+function event(
+  taskId: string,
+  type: TaskEventType,
+  actor: Actor,
+  changes: Record<string, FieldChange> | null
+): Prisma.TaskEventCreateManyInput {
+  return {
+    task_id: taskId,
+    type,
+    actor,
+    changes: changes ? JSON.stringify(changes) : null,
+  };
+}
+
+function fieldValues(task: TrackedValues, direction: "from" | "to") {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of TRACKED_FIELDS) {
+    const value = task[field] ?? null;
+    if (value === null) continue;
+    changes[field] =
+      direction === "to" ? { from: null, to: value } : { from: value, to: null };
+  }
+  return changes;
+}
+
+export type TaskSnapshot = Task & {
+  project: { name: string };
+  subtasks: Subtask[];
+  tags: Tag[];
+};
+
+/** Tags are logged as one comma-separated value, e.g. "blocked, review". */
+export function tagList(tags: { name: string }[]): string | null {
+  return tags.length > 0 ? tags.map((t) => t.name).sort().join(", ") : null;
+}
+
+export function tagsEvent(
+  taskId: string,
+  before: { name: string }[],
+  after: { name: string }[],
+  actor: Actor
+): Prisma.TaskEventCreateManyInput[] {
+  const from = tagList(before);
+  const to = tagList(after);
+  return from === to ? [] : [event(taskId, "updated", actor, { tags: { from, to } })];
+}
+
+export function createdEvent(task: Task, actor: Actor) {
+  return event(task.id, "created", actor, fieldValues(task, "to"));
+}
+
+export function restoredEvent(task: Task, actor: Actor) {
+  return event(task.id, "restored", actor, null);
+}
+
+export function purgedEvent(taskId: string, actor: Actor) {
+  return event(taskId, "purged", actor, null);
+}
+
+// Deletes keep a full copy of the row and its checklist so undo can restore it
+export function deletedEvent(task: TaskSnapshot, actor: Actor) {
+  return {
+    ...event(task.id, "deleted", actor, fieldValues(task, "from")),
+    snapshot: JSON.stringify(task),
+  };
+}
+
+/** A linked repository that a merge handed from one project to another. */
+export type RepoMove = { repo_path: string; from: string; to: string };
+
+// Every event of the merge carries the move, since undo may only be able to
+// revert some of them
+export function withRepoMove(
+  events: Prisma.TaskEventCreateManyInput[],
+  move: RepoMove | null
+): Prisma.TaskEventCreateManyInput[] {
+  if (!move) return events;
+  const snapshot = JSON.stringify({ repo_move: move });
+  return events.map((e) => ({ ...e, snapshot }));
+}
+
+/**
+ * Diffs `updates` against the stored task. Status changes and reschedules
+ * are split out into their own events so the log can answer "who moved
+ * this?" directly; remaining field edits are grouped into one "updated".
+ */
+export function updateEvents(
+  before: Task,
+  updates: TrackedValues,
+  actor: Actor
+): Prisma.TaskEventCreateManyInput[] {
+  const grouped = new Map<TaskEventType, Record<string, FieldChange>>();
+
+  for (const field of TRACKED_FIELDS) {
+    if (!(field in updates) || updates[field] === undefined) continue;
+    const from = before[field] ?? null;
+    const to = updates[field] ?? null;
+    if (from === to) continue;
+
+    const type = FIELD_EVENT_TYPES[field] ?? "updated";
+    grouped.set(type, { ...grouped.get(type), [field]: { from, to } });
+  }
+
+  return [...grouped].map(([type, changes]) =>
+    event(before.id, type, actor, changes)
+  );
+}
@@ -0,0 +1,65 @@
+import type { Prisma } from "@prisma/client";
+
+// Where a deleted project's tasks end up
+export const UNCATEGORISED = "Uncategorised";
+
+/**
+ * Resolves a project name to its ID, creating the project if it doesn't
+ * exist yet. Filing a task under a trashed project brings the project back.
+ */
+export async function ensureProject(
+  tx: Prisma.TransactionClient,
+  name: string
+): Promise<string> {
+  const project = await tx.project.upsert({
+    where: { name },
+    update: { deleted_at: null },
+    create: { name },
+  });
+  return project.id;
+}
+
+// Trailing separators are dropped so "/code/app/" and "/code/app" match
+export function normaliseRepoPath(path: string): string {
+  return path.trim().replace(/[\\/]+$/, "");
+}
+
+/**
+ * Picks the project whose repo_path is `dir` or its closest parent, so
+ * Claude can file tasks from anywhere inside a linked repository.
+ */
+export function matchRepoPath<T extends { repo_path: string | null }>(
+  projects: T[],
+  dir: string
+): T | null {
+  const target = normaliseRepoPath(dir);
+  let best: T | null = null;
+
+  for (const project of projects) {
+    const root = project.repo_path;
+    if (!root) continue;
+    const inside =
+      target === root ||
+      target.startsWith(`${root}/`) ||
+      target.startsWith(`${root}\\`);
+    if (inside && root.length > (best?.repo_path?.length ?? -1)) {
+      best = project;
+    }
+  }
+  return best;
+}
+
+/** The other project already linked to `repoPath`, if any. */
+export async function repoPathOwner(
+  tx: Prisma.TransactionClient,
+  repoPath: string,
+  exceptId?: string
+) {
+  return tx.project.findFirst({
+    where: {
+      repo_path: repoPath,
+      ...(exceptId ? { id: { not: exceptId } } : {}),
+    },
+    select: { id: true, name: true },
+  });
+}
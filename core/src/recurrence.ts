@@ -0,0 +1,264 @@
+import { addDays, daysInMonth, toDateString, toUTC } from "./calendar";
+
+// RRULE-style recurrence rules, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH".
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+// BYDAY (weekly only), BYMONTHDAY (monthly or yearly), BYMONTH (yearly only)
+// and UNTIL.
+
+export const RECURRENCE_FREQUENCIES = [
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+export type Recurrence = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[];
+  byMonthDay: number | null;
+  byMonth: number | null;
+  until: string | null;
+};
+
+export class RecurrenceError extends Error {}
+
+export function parseRecurrence(rule: string): Recurrence {
+  const parts = rule.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new RecurrenceError(`Invalid recurrence part "${part}"`);
+    }
+    fields.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = fields.get("FREQ");
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    throw new RecurrenceError(
+      `FREQ must be one of: ${RECURRENCE_FREQUENCIES.join(", ")}`
+    );
+  }
+
+  for (const key of fields.keys()) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "UNTIL"].includes(key)) {
+      throw new RecurrenceError(`Unsupported recurrence part "${key}"`);
+    }
+  }
+
+  const interval = Number(fields.get("INTERVAL") ?? "1");
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RecurrenceError("INTERVAL must be a positive whole number");
+  }
+
+  let byDay: number[] = [];
+  if (fields.has("BYDAY")) {
+    if (freq !== "WEEKLY") {
+      throw new RecurrenceError("BYDAY is only supported with FREQ=WEEKLY");
+    }
+    byDay = fields
+      .get("BYDAY")!
+      .split(",")
+      .map((d) => {
+        const index = WEEKDAYS.indexOf(d.trim() as (typeof WEEKDAYS)[number]);
+        if (index === -1) {
+          throw new RecurrenceError(`Invalid BYDAY value "${d}"`);
+        }
+        return index;
+      });
+  }
+
+  let byMonthDay: number | null = null;
+  if (fields.has("BYMONTHDAY")) {
+    if (freq !== "MONTHLY" && freq !== "YEARLY") {
+      throw new RecurrenceError(
+        "BYMONTHDAY is only supported with FREQ=MONTHLY or FREQ=YEARLY"
+      );
+    }
+    byMonthDay = Number(fields.get("BYMONTHDAY"));
+    if (
+      !Number.isInteger(byMonthDay) ||
+      byMonthDay === 0 ||
+      byMonthDay < -31 ||
+      byMonthDay > 31
+    ) {
+      throw new RecurrenceError("BYMONTHDAY must be between 1 and 31, or -1 to -31");
+    }
+  }
+
+  let byMonth: number | null = null;
+  if (fields.has("BYMONTH")) {
+    if (freq !== "YEARLY") {
+      throw new RecurrenceError("BYMONTH is only supported with FREQ=YEARLY");
+    }
+    byMonth = Number(fields.get("BYMONTH"));
+    if (!Number.isInteger(byMonth) || byMonth < 1 || byMonth > 12) {
+      throw new RecurrenceError("BYMONTH must be between 1 and 12");
+    }
+  }
+
+  let until: string | null = null;
+  if (fields.has("UNTIL")) {
+    const raw = fields.get("UNTIL")!;
+    const match = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!match) {
+      throw new RecurrenceError("UNTIL must be a date (YYYYMMDD or YYYY-MM-DD)");
+    }
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return {
+    freq: freq as RecurrenceFrequency,
+    interval,
+    byDay,
+    byMonthDay,
+    byMonth,
+    until,
+  };
+}
+
+export function formatRecurrence(r: Recurrence): string {
+  const parts = [`FREQ=${r.freq}`];
+  if (r.interval !== 1) parts.push(`INTERVAL=${r.interval}`);
+  if (r.byDay.length > 0) {
+    parts.push(`BYDAY=${[...new Set(r.byDay)].sort().map((d) => WEEKDAYS[d]).join(",")}`);
+  }
+  if (r.byMonth !== null) parts.push(`BYMONTH=${r.byMonth}`);
+  if (r.byMonthDay !== null) parts.push(`BYMONTHDAY=${r.byMonthDay}`);
+  if (r.until) parts.push(`UNTIL=${r.until.replaceAll("-", "")}`);
+  return parts.join(";");
+}
+
+export function normaliseRecurrence(rule: string): string {
+  return formatRecurrence(parseRecurrence(rule));
+}
+
+/**
+ * Pins a monthly or yearly rule to the day (and month) of `from` when it
+ * doesn't name one, so the series keeps its day after a short month clamps
+ * an occurrence: the 31st stays the 31st after falling on 28 February.
+ */
+export function anchorRecurrence(rule: string, from: string): string {
+  const r = parseRecurrence(rule);
+  const [, month, day] = from.split("-").map(Number);
+  if (r.freq === "MONTHLY" || r.freq === "YEARLY") r.byMonthDay ??= day;
+  if (r.freq === "YEARLY") r.byMonth ??= month;
+  return formatRecurrence(r);
+}
+
+// ─── Date arithmetic (YYYY-MM-DD, calendar days only) ─────────────────────────
+
+function resolveMonthDay(year: number, monthIndex: number, day: number): string {
+  const last = daysInMonth(year, monthIndex);
+  const resolved = day > 0 ? Math.min(day, last) : Math.max(1, last + day + 1);
+  return toDateString(new Date(Date.UTC(year, monthIndex, resolved)));
+}
+
+function step(r: Recurrence, from: string): string {
+  const base = toUTC(from);
+
+  switch (r.freq) {
+    case "DAILY":
+      return addDays(from, r.interval);
+
+    case "WEEKLY": {
+      if (r.byDay.length === 0) return addDays(from, 7 * r.interval);
+      // Weeks start on Monday; only weeks that are a multiple of INTERVAL
+      // away from the base week are eligible.
+      const baseWeekStart = addDays(from, -((base.getUTCDay() + 6) % 7));
+      for (let i = 1; i <= 7 * r.interval + 7; i++) {
+        const candidate = addDays(from, i);
+        const weekday = toUTC(candidate).getUTCDay();
+        const weekStart = addDays(candidate, -((weekday + 6) % 7));
+        const weekIndex = Math.round(
+          (toUTC(weekStart).getTime() - toUTC(baseWeekStart).getTime()) /
+            (7 * 24 * 60 * 60 * 1000)
+        );
+        if (weekIndex % r.interval === 0 && r.byDay.includes(weekday)) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * r.interval);
+    }
+
+    case "MONTHLY":
+    case "YEARLY": {
+      // Candidates run from `from`'s month (or BYMONTH) in steps of
+      // INTERVAL, each on the rule's day clamped to that month's length;
+      // the first one after `from` is next
+      const months = r.freq === "MONTHLY" ? r.interval : 12 * r.interval;
+      const startMonth =
+        r.freq === "YEARLY" && r.byMonth !== null
+          ? r.byMonth - 1
+          : base.getUTCMonth();
+      const day = r.byMonthDay ?? base.getUTCDate();
+      for (let offset = 0; ; offset += months) {
+        const monthIndex = startMonth + offset;
+        const candidate = resolveMonthDay(
+          base.getUTCFullYear() + Math.floor(monthIndex / 12),
+          monthIndex % 12,
+          day
+        );
+        if (candidate > from) return candidate;
+      }
+    }
+  }
+}
+
+/**
+ * Returns the first occurrence after `from` that is also after `today`, or
+ * null once the rule's UNTIL date has passed.
+ */
+export function nextOccurrence(
+  rule: string,
+  from: string,
+  today: string
+): string | null {
+  const r = parseRecurrence(rule);
+  let next = step(r, from);
+  while (next <= today) next = step(r, next);
+  if (r.until && next > r.until) return null;
+  return next;
+}
+
+const FREQ_LABELS: Record<RecurrenceFrequency, [string, string]> = {
+  DAILY: ["Daily", "days"],
+  WEEKLY: ["Weekly", "weeks"],
+  MONTHLY: ["Monthly", "months"],
+  YEARLY: ["Yearly", "years"],
+};
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const MONTH_LABELS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+export function describeRecurrence(rule: string): string {
+  let r: Recurrence;
+  try {
+    r = parseRecurrence(rule);
+  } catch {
+    return "Repeats";
+  }
+
+  const [single, plural] = FREQ_LABELS[r.freq];
+  let label = r.interval === 1 ? single : `Every ${r.interval} ${plural}`;
+  if (r.byDay.length > 0) {
+    label += ` on ${r.byDay.map((d) => WEEKDAY_LABELS[d]).join(", ")}`;
+  }
+  if (r.byMonth !== null) {
+    label += ` in ${MONTH_LABELS[r.byMonth - 1]}`;
+  }
+  if (r.byMonthDay !== null) {
+    label += r.byMonthDay === -1 ? " on the last day" : ` on day ${r.byMonthDay}`;
+  }
+  return label;
+}
@@ -0,0 +1,23 @@
+import type { Prisma } from "@prisma/client";
+
+// Every task response carries its checklist and tags so clients can show
+// progress and labels without a second request
+export const TASK_INCLUDE = {
+  project: { select: { name: true } },
+  subtasks: { orderBy: { position: "asc" } },
+  tags: { orderBy: { name: "asc" } },
+} satisfies Prisma.TaskInclude;
+
+export type TaskWithRelations = Prisma.TaskGetPayload<{
+  include: typeof TASK_INCLUDE;
+}>;
+
+/**
+ * Shapes a task for API responses. Tasks reference their project by ID, but
+ * clients (and the MCP server) keep seeing the project's name in `project`.
+ */
+export function serializeTask(task: TaskWithRelations) {
+  return { ...task, project: task.project.name };
+}
+
+export type TaskResponse = ReturnType<typeof serializeTask>;
@@ -0,0 +1,33 @@
+import { db } from "./db";
+
+// Full-text index over task titles, notes and project names. The FTS5 table
+// and the triggers that keep it in sync with "Task" and "Project" come from
+// the task_search migration.
+
+// Every word becomes a quoted prefix term, so user input can never be
+// parsed as FTS5 query syntax: `electron bui` → `"electron"* "bui"*`
+function toMatchQuery(q: string): string | null {
+  const terms = q
+    .split(/\s+/)
+    .map((t) => t.replaceAll('"', ""))
+    .filter(Boolean)
+    .map((t) => `"${t}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+/**
+ * Returns the IDs of tasks matching `q`, best match first. Title matches
+ * outrank project matches, which outrank matches in the notes.
+ */
+export async function searchTaskIds(q: string): Promise<string[]> {
+  const match = toMatchQuery(q);
+  if (!match) return [];
+
+  const rows = await db.$queryRawUnsafe<{ task_id: string }[]>(
+    `SELECT task_id FROM task_search
+      WHERE task_search MATCH ?
+      ORDER BY bm25(task_search, 0, 10.0, 1.0, 5.0)`,
+    match
+  );
+  return rows.map((row) => row.task_id);
+}
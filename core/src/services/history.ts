@@ -0,0 +1,29 @@
+import type { TaskEvent } from "@prisma/client";
+import { db } from "../db";
+import { ServiceError } from "../errors";
+import type { FieldChange } from "../history";
+
+export type TaskHistoryEntry = Omit<TaskEvent, "changes"> & {
+  changes: Record<string, FieldChange> | null;
+};
+
+/**
+ * A task's events, newest first. History outlives the task, so a purged
+ * task's history can still be read; only an ID with neither is not found.
+ */
+export async function taskHistory(id: string): Promise<TaskHistoryEntry[]> {
+  const events = await db.taskEvent.findMany({
+    where: { task_id: id },
+    orderBy: { created_at: "desc" },
+  });
+
+  if (events.length === 0) {
+    const task = await db.task.findUnique({ where: { id } });
+    if (!task) throw new ServiceError("Task not found", 404);
+  }
+
+  return events.map((e) => ({
+    ...e,
+    changes: e.changes ? JSON.parse(e.changes) : null,
+  }));
+}
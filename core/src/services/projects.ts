@@ -0,0 +1,283 @@
+import type { Project } from "@prisma/client";
+import {
+  createProjectBody,
+  mergeProjectBody,
+  projectKey,
+  type Output,
+  type ProjectFields,
+} from "action-center-schemas";
+import { db } from "../db";
+import { FieldError, isUniqueViolation, ServiceError } from "../errors";
+import { publish } from "../events";
+import {
+  inMutation,
+  updateEvents,
+  withRepoMove,
+  type Actor,
+  type Mutation,
+  type RepoMove,
+} from "../history";
+import {
+  ensureProject,
+  matchRepoPath,
+  repoPathOwner,
+  UNCATEGORISED,
+} from "../projects";
+
+export type ProjectSummary = Pick<
+  Project,
+  "id" | "name" | "color" | "description" | "archived" | "repo_path"
+> & { task_count: number };
+
+export type DuplicateGroup = {
+  target: { id: string; name: string };
+  merge: { id: string; name: string; task_count: number }[];
+};
+
+export type MergeResult = { project: Project; moved_tasks: number };
+
+function projectsWithCounts() {
+  return db.project.findMany({
+    where: { deleted_at: null },
+    orderBy: { name: "asc" },
+    include: {
+      _count: { select: { tasks: { where: { deleted_at: null } } } },
+    },
+  });
+}
+
+/**
+ * Every project, or with `path` only the one linked to that directory (or
+ * its closest parent), which is how Claude picks a project from its working
+ * directory.
+ */
+export async function listProjects(path?: string): Promise<ProjectSummary[]> {
+  const projects = await projectsWithCounts();
+
+  const matched = path ? matchRepoPath(projects, path) : null;
+  const results = path ? (matched ? [matched] : []) : projects;
+
+  return results.map((p) => ({
+    id: p.id,
+    name: p.name,
+    color: p.color,
+    description: p.description,
+    archived: p.archived,
+    repo_path: p.repo_path,
+    task_count: p._count.tasks,
+  }));
+}
+
+export async function createProject(
+  body: Output<typeof createProjectBody>
+): Promise<Project> {
+  const { name, ...details } = body;
+
+  try {
+    if (details.repo_path) {
+      const owner = await repoPathOwner(db, details.repo_path);
+      if (owner && owner.name !== name) {
+        throw new ServiceError(
+          `${details.repo_path} is already linked to project "${owner.name}"`,
+          409
+        );
+      }
+    }
+
+    // Re-creating a trashed project restores it
+    const { count } = await db.project.updateMany({
+      where: { name, deleted_at: { not: null } },
+      data: { ...details, deleted_at: null },
+    });
+    const project =
+      count > 0
+        ? await db.project.findUniqueOrThrow({ where: { name } })
+        : await db.project.create({ data: { name, ...details } });
+    publish({ type: "projects.changed" });
+    return project;
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new ServiceError(`Project "${name}" already exists`, 409);
+    }
+    throw err;
+  }
+}
+
+export async function updateProject(
+  id: string,
+  fields: ProjectFields
+): Promise<Project> {
+  const existing = await db.project.findFirst({
+    where: { id, deleted_at: null },
+  });
+  if (!existing) throw new ServiceError("Project not found", 404);
+
+  try {
+    if (fields.repo_path) {
+      const owner = await repoPathOwner(db, fields.repo_path, id);
+      if (owner) {
+        throw new ServiceError(
+          `${fields.repo_path} is already linked to project "${owner.name}"`,
+          409
+        );
+      }
+    }
+
+    // Tasks reference the project by ID, so they follow a rename as-is
+    const project = await db.project.update({ where: { id }, data: fields });
+
+    publish({ type: "projects.changed" });
+    // Task lists show project names and hide archived projects' tasks
+    if (fields.name !== undefined || fields.archived !== undefined) {
+      publish({ type: "tasks.changed" });
+    }
+    return project;
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new ServiceError(`Project name "${fields.name}" already exists`, 409);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Moves the project to the trash and files its tasks under Uncategorised.
+ * The moves are logged under one mutation ID, which the project keeps, so
+ * undoing the delete or restoring the project moves the tasks back. Returns
+ * that ID, or null for an empty project: it leaves nothing to undo, though
+ * it can still be restored.
+ */
+export async function deleteProject(
+  id: string,
+  actor: Actor
+): Promise<string | null> {
+  const project = await db.project.findFirst({
+    where: { id, deleted_at: null },
+  });
+  if (!project) throw new ServiceError("Project not found", 404);
+  if (project.name === UNCATEGORISED) {
+    throw new ServiceError(
+      `${UNCATEGORISED} holds the tasks of deleted projects and can't be deleted`,
+      409
+    );
+  }
+
+  const mutationId = crypto.randomUUID();
+
+  const moved = await db.$transaction(async (tx) => {
+    const fallbackId = await ensureProject(tx, UNCATEGORISED);
+    const tasks = await tx.task.findMany({ where: { project_id: id } });
+
+    await tx.task.updateMany({
+      where: { project_id: id },
+      data: { project_id: fallbackId },
+    });
+    await tx.project.update({
+      where: { id },
+      data: { deleted_at: new Date(), deletion_id: mutationId },
+    });
+    await tx.taskEvent.createMany({
+      data: inMutation(
+        mutationId,
+        tasks.flatMap((t) => updateEvents(t, { project_id: fallbackId }, actor))
+      ),
+    });
+    return tasks.length;
+  });
+
+  publish({ type: "projects.changed" });
+  publish({ type: "tasks.changed" });
+  return moved > 0 ? mutationId : null;
+}
+
+/**
+ * Groups projects whose names only differ in case or punctuation, e.g.
+ * "web-app", "Web App" and "webapp". Each group suggests merging into the
+ * project with the most tasks.
+ */
+export async function findDuplicateProjects(): Promise<DuplicateGroup[]> {
+  const projects = await projectsWithCounts();
+
+  const groups = new Map<string, typeof projects>();
+  for (const p of projects) {
+    const key = projectKey(p.name);
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const target = group.reduce((best, p) =>
+        p._count.tasks > best._count.tasks ? p : best
+      );
+      return {
+        target: { id: target.id, name: target.name },
+        merge: group
+          .filter((p) => p.id !== target.id)
+          .map((p) => ({ id: p.id, name: p.name, task_count: p._count.tasks })),
+      };
+    });
+}
+
+/**
+ * Folds project `id` into `target_id`: every task (trashed ones included)
+ * moves across and the project goes to the trash, all in one transaction.
+ * The moves are logged under one mutation ID, so undoing the merge moves
+ * the tasks back and restores the project, along with its repository.
+ */
+export async function mergeProject(
+  id: string,
+  { target_id }: Output<typeof mergeProjectBody>,
+  actor: Actor
+): Promise<Mutation<MergeResult>> {
+  if (target_id === id) {
+    throw new FieldError("target_id", "A project cannot be merged into itself");
+  }
+
+  const mutationId = crypto.randomUUID();
+
+  const [source, target] = await Promise.all([
+    db.project.findFirst({ where: { id, deleted_at: null } }),
+    db.project.findFirst({ where: { id: target_id, deleted_at: null } }),
+  ]);
+  if (!source) throw new ServiceError("Project not found", 404);
+  if (!target) throw new ServiceError("Target project not found", 404);
+
+  // The target takes over the linked repository unless it has its own
+  const repoMove: RepoMove | null =
+    source.repo_path && !target.repo_path
+      ? { repo_path: source.repo_path, from: id, to: target_id }
+      : null;
+
+  const { project, moved } = await db.$transaction(async (tx) => {
+    const tasks = await tx.task.findMany({ where: { project_id: id } });
+    await tx.task.updateMany({
+      where: { project_id: id },
+      data: { project_id: target_id },
+    });
+
+    await tx.project.update({
+      where: { id },
+      data: { deleted_at: new Date(), repo_path: null },
+    });
+    const project = await tx.project.update({
+      where: { id: target_id },
+      data: repoMove ? { repo_path: repoMove.repo_path } : {},
+    });
+
+    await tx.taskEvent.createMany({
+      data: inMutation(
+        mutationId,
+        withRepoMove(
+          tasks.flatMap((t) => updateEvents(t, { project_id: target_id }, actor)),
+          repoMove
+        )
+      ),
+    });
+    return { project, moved: tasks.filter((t) => !t.deleted_at).length };
+  });
+
+  publish({ type: "projects.changed" });
+  publish({ type: "tasks.changed" });
+  return { result: { project, moved_tasks: moved }, mutationId };
+}
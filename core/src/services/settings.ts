@@ -0,0 +1,17 @@
+import { appTimeZone, DateParseError, todayIn } from "../dates";
+import { ServiceError } from "../errors";
+
+export type Settings = { timezone: string; today: string };
+
+// Clients work out "today", overdue tasks and the activity heatmap in this
+// time zone, so they agree with the API wherever they run. It is read from
+// the environment every time, and a bad one is reported as it is.
+export function readSettings(): Settings {
+  try {
+    const timezone = appTimeZone();
+    return { timezone, today: todayIn(timezone) };
+  } catch (err) {
+    if (err instanceof DateParseError) throw new ServiceError(err.message, 500);
+    throw err;
+  }
+}
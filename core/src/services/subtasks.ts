@@ -0,0 +1,80 @@
+import type { Subtask } from "@prisma/client";
+import {
+  createSubtaskBody,
+  type Output,
+  type UpdateSubtaskBody,
+} from "action-center-schemas";
+import { db } from "../db";
+import { ServiceError } from "../errors";
+import { publishTask } from "../events";
+
+// Checklist changes aren't logged or undoable; each one republishes its task
+// so open views pick up the new progress
+
+async function assertTask(id: string) {
+  const task = await db.task.findFirst({ where: { id, deleted_at: null } });
+  if (!task) throw new ServiceError("Task not found", 404);
+}
+
+export async function listSubtasks(taskId: string): Promise<Subtask[]> {
+  await assertTask(taskId);
+  return db.subtask.findMany({
+    where: { task_id: taskId },
+    orderBy: { position: "asc" },
+  });
+}
+
+/** Adds a step to the end of the task's checklist. */
+export async function addSubtask(
+  taskId: string,
+  { title }: Output<typeof createSubtaskBody>
+): Promise<Subtask> {
+  await assertTask(taskId);
+  const last = await db.subtask.findFirst({
+    where: { task_id: taskId },
+    orderBy: { position: "desc" },
+  });
+
+  const subtask = await db.subtask.create({
+    data: {
+      task_id: taskId,
+      title,
+      position: last ? last.position + 1 : 0,
+    },
+  });
+  await publishTask(taskId);
+  return subtask;
+}
+
+export async function updateSubtask(
+  taskId: string,
+  subtaskId: string,
+  { title, done, position }: UpdateSubtaskBody
+): Promise<Subtask> {
+  const existing = await db.subtask.findFirst({
+    where: { id: subtaskId, task_id: taskId, task: { deleted_at: null } },
+  });
+  if (!existing) throw new ServiceError("Subtask not found", 404);
+
+  const subtask = await db.subtask.update({
+    where: { id: subtaskId },
+    data: {
+      ...(title !== undefined ? { title } : {}),
+      ...(done !== undefined ? { done } : {}),
+      ...(position !== undefined ? { position } : {}),
+    },
+  });
+  await publishTask(taskId);
+  return subtask;
+}
+
+export async function deleteSubtask(
+  taskId: string,
+  subtaskId: string
+): Promise<void> {
+  const { count } = await db.subtask.deleteMany({
+    where: { id: subtaskId, task_id: taskId, task: { deleted_at: null } },
+  });
+  if (count === 0) throw new ServiceError("Subtask not found", 404);
+  await publishTask(taskId);
+}
@@ -0,0 +1,87 @@
+import type { Tag } from "@prisma/client";
+import type { Output, tagBody } from "action-center-schemas";
+import { db } from "../db";
+import {
+  FieldError,
+  isPrismaNotFound,
+  isUniqueViolation,
+  ServiceError,
+} from "../errors";
+import { publish } from "../events";
+import { normaliseTagName } from "../tags";
+
+export type TagSummary = Pick<Tag, "id" | "name"> & { task_count: number };
+
+// Punctuation-only names normalise away to nothing
+function tagName(name: string): string {
+  const normalised = normaliseTagName(name);
+  if (!normalised) throw new FieldError("name", "name cannot be empty");
+  return normalised;
+}
+
+/** Every tag, with how many tasks outside the trash carry it. */
+export async function listTags(): Promise<TagSummary[]> {
+  const tags = await db.tag.findMany({
+    orderBy: { name: "asc" },
+    include: {
+      _count: { select: { tasks: { where: { deleted_at: null } } } },
+    },
+  });
+
+  return tags.map((t) => ({
+    id: t.id,
+    name: t.name,
+    task_count: t._count.tasks,
+  }));
+}
+
+export async function createTag(
+  body: Output<typeof tagBody>
+): Promise<Tag> {
+  const name = tagName(body.name);
+
+  try {
+    const tag = await db.tag.create({ data: { name } });
+    publish({ type: "tags.changed" });
+    return tag;
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new ServiceError(`Tag "${name}" already exists`, 409);
+    }
+    throw err;
+  }
+}
+
+export async function renameTag(
+  id: string,
+  body: Output<typeof tagBody>
+): Promise<Tag> {
+  const name = tagName(body.name);
+
+  try {
+    const tag = await db.tag.update({ where: { id }, data: { name } });
+
+    // Task responses embed their tags, so open task lists need the new name
+    publish({ type: "tags.changed" });
+    publish({ type: "tasks.changed" });
+    return tag;
+  } catch (err) {
+    if (isPrismaNotFound(err)) throw new ServiceError("Tag not found", 404);
+    if (isUniqueViolation(err)) {
+      throw new ServiceError(`Tag name "${name}" already exists`, 409);
+    }
+    throw err;
+  }
+}
+
+/** Only unlabels the tag's tasks; the tasks themselves are untouched. */
+export async function deleteTag(id: string): Promise<void> {
+  try {
+    await db.tag.delete({ where: { id } });
+  } catch (err) {
+    if (isPrismaNotFound(err)) throw new ServiceError("Tag not found", 404);
+    throw err;
+  }
+  publish({ type: "tags.changed" });
+  publish({ type: "tasks.changed" });
+}
@@ -0,0 +1,514 @@
+import type { Prisma } from "@prisma/client";
+import {
+  DEFAULT_PRIORITY,
+  type BulkTasksBody,
+  type CreateTaskBody,
+  type ListTasksQuery,
+  type UpdateTaskBody,
+} from "action-center-schemas";
+import { db } from "../db";
+import {
+  DateParseError,
+  parseDue,
+  parseDueTime,
+  parseSnoozeUntil,
+  snoozeEnded,
+  type Due,
+} from "../dates";
+import { FieldError, isPrismaNotFound, ServiceError } from "../errors";
+import { publish } from "../events";
+import {
+  createdEvent,
+  deletedEvent,
+  inMutation,
+  tagsEvent,
+  updateEvents,
+  type Actor,
+  type Mutation,
+} from "../history";
+import { ensureProject } from "../projects";
+import { normaliseRecurrence, RecurrenceError } from "../recurrence";
+import {
+  serializeTask,
+  TASK_INCLUDE,
+  type TaskResponse,
+  type TaskWithRelations,
+} from "../responses";
+import { searchTaskIds } from "../search";
+import { wakeExpiredSnoozes } from "../snooze";
+import { normaliseTagName, normaliseTagNames, setTaskTags } from "../tags";
+import { completeRecurring, type TaskUpdates } from "../tasks";
+import { purgeExpiredTrash } from "../trash";
+
+// Ties within a sort always fall back to newest first
+const SORT_ORDERS = {
+  created_at: [{ created_at: "desc" }],
+  updated_at: [{ updated_at: "desc" }],
+  priority: [{ priority: "asc" }, { created_at: "desc" }],
+  due_date: [
+    { due_date: { sort: "asc", nulls: "last" } },
+    { due_time: { sort: "asc", nulls: "last" } },
+    { priority: "asc" },
+    { created_at: "desc" },
+  ],
+  title: [{ title: "asc" }, { created_at: "desc" }],
+} satisfies Record<string, Prisma.TaskOrderByWithRelationInput[]>;
+
+export type TaskPage = { tasks: TaskResponse[]; total: number };
+
+// Completing a recurring task also reports the occurrence that replaced it
+export type UpdatedTask = TaskResponse & {
+  next_occurrence?: TaskResponse | null;
+};
+
+export type BulkResult = {
+  updated: TaskResponse[];
+  created: TaskResponse[];
+  deleted: string[];
+};
+
+// Dates and recurrence rules are checked beyond what the schemas can see;
+// failures are reported against the field they came from
+function parseField<T>(field: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (err) {
+    if (err instanceof DateParseError || err instanceof RecurrenceError) {
+      throw new FieldError(field, err.message);
+    }
+    throw err;
+  }
+}
+
+/**
+ * One page of tasks matching `query`, with how many match across every
+ * page. Search results come best match first unless a sort is given.
+ */
+export async function listTasks(query: ListTasksQuery): Promise<TaskPage> {
+  const { project, status, priority: priorities } = query;
+  const q = query.q?.trim();
+  const sort = query.sort ?? "created_at";
+  const includeArchived = query.include_archived ?? false;
+  const tags = query.tag?.map(normaliseTagName).filter(Boolean);
+
+  // Housekeeping only; a failed purge must never fail the read
+  purgeExpiredTrash().catch(() => {});
+
+  await wakeExpiredSnoozes();
+  const matches = q ? await searchTaskIds(q) : null;
+
+  const where: Prisma.TaskWhereInput = {
+    deleted_at: null,
+    // Archived projects' tasks only show up when asked for, by project
+    // name or with include_archived
+    ...(project
+      ? { project: { name: project } }
+      : includeArchived
+        ? {}
+        : { project: { archived: false } }),
+    ...(status ? { status } : {}),
+    ...(priorities?.length ? { priority: { in: priorities } } : {}),
+    ...(tags?.length
+      ? { AND: tags.map((name) => ({ tags: { some: { name } } })) }
+      : {}),
+    ...(matches ? { id: { in: matches } } : {}),
+  };
+  const offset = query.offset ?? 0;
+  const limit = query.limit;
+
+  const page = (tasks: TaskWithRelations[], total: number) => ({
+    tasks: tasks.map(serializeTask),
+    total,
+  });
+
+  // Search results keep their relevance order unless a sort was requested.
+  // The database can't order by it, so they are filtered by ID and paged
+  // here, and only the page's tasks are loaded in full.
+  if (matches && !query.sort) {
+    const found = await db.task.findMany({ where, select: { id: true } });
+    const ids = new Set(found.map((t) => t.id));
+    const ranked = matches.filter((id) => ids.has(id));
+    const pageIds = ranked.slice(offset, limit && offset + limit);
+
+    const tasks = await db.task.findMany({
+      where: { id: { in: pageIds } },
+      include: TASK_INCLUDE,
+    });
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    return page(
+      pageIds.flatMap((id) => byId.get(id) ?? []),
+      ranked.length
+    );
+  }
+
+  const [tasks, total] = await db.$transaction([
+    db.task.findMany({
+      where,
+      orderBy: SORT_ORDERS[sort],
+      include: TASK_INCLUDE,
+      skip: offset,
+      take: limit,
+    }),
+    db.task.count({ where }),
+  ]);
+  return page(tasks, total);
+}
+
+export async function getTask(id: string): Promise<TaskResponse> {
+  await wakeExpiredSnoozes();
+  const task = await db.task.findFirst({
+    where: { id, deleted_at: null },
+    include: TASK_INCLUDE,
+  });
+  if (!task) throw new ServiceError("Task not found", 404);
+  return serializeTask(task);
+}
+
+/** Tasks Claude creates (`source: "claude"`) are logged as its changes. */
+export async function createTask(
+  body: CreateTaskBody
+): Promise<Mutation<TaskResponse>> {
+  const {
+    title,
+    project,
+    notes,
+    due_date,
+    due_time,
+    source,
+    recurrence,
+    priority,
+  } = body;
+  const tags = normaliseTagNames(body.tags ?? []);
+
+  if (due_time && !due_date) {
+    throw new FieldError("due_time", "A due time needs a due date");
+  }
+
+  let due: Due | null = due_date
+    ? parseField("due_date", () => parseDue(due_date))
+    : null;
+  // An explicit due_time wins over one given with the date ("friday 5pm")
+  if (due && due_time) {
+    due = { ...due, time: parseField("due_time", () => parseDueTime(due_time)) };
+  }
+  const rule = recurrence
+    ? parseField("recurrence", () => normaliseRecurrence(recurrence))
+    : null;
+
+  const projectId = await ensureProject(db, project);
+  const actor = source === "claude" ? "claude" : "manual";
+  const mutationId = crypto.randomUUID();
+
+  const task = await db.$transaction(async (tx) => {
+    const created = await tx.task.create({
+      data: {
+        title,
+        project: { connect: { id: projectId } },
+        priority: priority ?? DEFAULT_PRIORITY,
+        notes: notes ?? null,
+        due_date: due?.date ?? null,
+        due_time: due?.time ?? null,
+        recurrence: rule,
+        source: actor,
+        tags: {
+          connectOrCreate: tags.map((name) => ({
+            where: { name },
+            create: { name },
+          })),
+        },
+      },
+      include: TASK_INCLUDE,
+    });
+    await tx.taskEvent.createMany({
+      data: inMutation(mutationId, [createdEvent(created, actor)]),
+    });
+    return created;
+  });
+
+  publish({ type: "task.created", task: serializeTask(task) });
+  return { result: serializeTask(task), mutationId };
+}
+
+/**
+ * Applies `body` to a task. Completing a recurring task creates its next
+ * occurrence, returned as `next_occurrence`.
+ */
+export async function updateTask(
+  id: string,
+  body: UpdateTaskBody,
+  actor: Actor
+): Promise<Mutation<UpdatedTask>> {
+  const {
+    title,
+    notes,
+    project,
+    status,
+    priority,
+    due_date,
+    due_time,
+    snoozed_until,
+    recurrence,
+  } = body;
+
+  // Tags replace the task's current set; omit them to leave tags alone
+  const tags = body.tags && normaliseTagNames(body.tags);
+
+  // Both accept the same phrases as due dates, e.g. "next monday" or
+  // "tomorrow 9am"; null clears them. A due date given without a time keeps the task's current
+  // due time, and clearing the date clears the time too.
+  const dates: {
+    due_date?: string | null;
+    due_time?: string | null;
+    snoozed_until?: string | null;
+  } = {};
+  if (due_date === null) {
+    dates.due_date = dates.due_time = null;
+  } else if (due_date !== undefined) {
+    const due = parseField("due_date", () => parseDue(due_date));
+    dates.due_date = due.date;
+    if (due.time) dates.due_time = due.time;
+  }
+  for (const [field, value, parse] of [
+    ["due_time", due_time, parseDueTime],
+    ["snoozed_until", snoozed_until, parseSnoozeUntil],
+  ] as const) {
+    if (value === undefined) continue;
+    dates[field] = value === null ? null : parseField(field, () => parse(value));
+  }
+  // A snooze that has already ended would wake straight away
+  if (dates.snoozed_until && snoozeEnded(dates.snoozed_until)) {
+    throw new FieldError(
+      "snoozed_until",
+      "Snooze until a day or time that is still to come"
+    );
+  }
+
+  const rule =
+    recurrence === undefined
+      ? undefined
+      : recurrence
+        ? parseField("recurrence", () => normaliseRecurrence(recurrence))
+        : null;
+
+  const mutationId = crypto.randomUUID();
+
+  try {
+    const projectId = project ? await ensureProject(db, project) : undefined;
+    const data: TaskUpdates = {
+      ...(title !== undefined ? { title } : {}),
+      ...(notes !== undefined ? { notes } : {}),
+      ...(projectId !== undefined ? { project_id: projectId } : {}),
+      ...(status !== undefined ? { status } : {}),
+      ...(priority !== undefined ? { priority } : {}),
+      ...dates,
+      ...(rule !== undefined ? { recurrence: rule } : {}),
+    };
+
+    const previous = await db.task.findFirst({
+      where: { id, deleted_at: null },
+      include: TASK_INCLUDE,
+    });
+    if (!previous) throw new ServiceError("Task not found", 404);
+    const dueDate = "due_date" in data ? data.due_date : previous.due_date;
+    if (data.due_time && !dueDate) {
+      throw new FieldError("due_time", "A due time needs a due date");
+    }
+
+    // Setting a snooze snoozes the task and clearing one wakes it, unless
+    // the request sets a status of its own. Moving a task out of "snoozed"
+    // drops its snooze.
+    if (status === undefined && data.snoozed_until !== undefined) {
+      if (data.snoozed_until !== null) data.status = "snoozed";
+      else if (previous.status === "snoozed") data.status = "pending";
+    } else if (status !== undefined && status !== "snoozed") {
+      data.snoozed_until = null;
+    }
+
+    const recurring = rule !== undefined ? rule : previous.recurrence;
+
+    if (status === "done" && previous.status !== "done" && recurring) {
+      const { completed: task, next } = await db.$transaction(async (tx) => {
+        // Retag first so the next occurrence inherits the new tags
+        const current = tags
+          ? { ...previous, tags: await setTaskTags(tx, id, tags) }
+          : previous;
+        const result = await completeRecurring(
+          tx,
+          current,
+          data,
+          recurring,
+          actor
+        );
+        await tx.taskEvent.createMany({
+          data: inMutation(mutationId, [
+            ...result.events,
+            ...tagsEvent(id, previous.tags, current.tags, actor),
+          ]),
+        });
+        return result;
+      });
+      publish({ type: "task.updated", task: serializeTask(task) });
+      if (next) publish({ type: "task.created", task: serializeTask(next) });
+      return {
+        result: {
+          ...serializeTask(task),
+          next_occurrence: next && serializeTask(next),
+        },
+        mutationId,
+      };
+    }
+
+    const task = await db.$transaction(async (tx) => {
+      if (tags) await setTaskTags(tx, id, tags);
+      const updated = await tx.task.update({
+        where: { id },
+        data,
+        include: TASK_INCLUDE,
+      });
+      await tx.taskEvent.createMany({
+        data: inMutation(mutationId, [
+          ...updateEvents(previous, data, actor),
+          ...tagsEvent(id, previous.tags, updated.tags, actor),
+        ]),
+      });
+      return updated;
+    });
+    publish({ type: "task.updated", task: serializeTask(task) });
+    return { result: serializeTask(task), mutationId };
+  } catch (err) {
+    if (isPrismaNotFound(err)) throw new ServiceError("Task not found", 404);
+    throw err;
+  }
+}
+
+/**
+ * Soft delete: the task moves to the trash until restored or purged.
+ * Returns the mutation ID that undoes it.
+ */
+export async function deleteTask(id: string, actor: Actor): Promise<string> {
+  const mutationId = crypto.randomUUID();
+
+  try {
+    const task = await db.task.findFirst({
+      where: { id, deleted_at: null },
+      include: TASK_INCLUDE,
+    });
+    if (!task) throw new ServiceError("Task not found", 404);
+
+    await db.$transaction([
+      db.task.update({ where: { id }, data: { deleted_at: new Date() } }),
+      db.taskEvent.createMany({
+        data: inMutation(mutationId, [deletedEvent(task, actor)]),
+      }),
+    ]);
+    publish({ type: "task.deleted", id });
+    return mutationId;
+  } catch (err) {
+    if (isPrismaNotFound(err)) throw new ServiceError("Task not found", 404);
+    throw err;
+  }
+}
+
+/**
+ * Applies one change to many tasks at once:
+ *
+ *   { ids, action: "status",   value: "done" }
+ *   { ids, action: "due_date", value: "2026-03-01" }   (null unschedules)
+ *   { ids, action: "project",  value: "my-app" }
+ *   { ids, action: "delete" }
+ *
+ * Everything happens in one transaction under one mutation ID, so a single
+ * undo reverts the whole batch. Nothing is changed if any ID is unknown.
+ * Due dates also accept phrases such as "next monday" or "friday 5pm";
+ * one without a time keeps each task's current due time.
+ */
+export async function bulkUpdateTasks(
+  body: BulkTasksBody,
+  actor: Actor
+): Promise<Mutation<BulkResult>> {
+  const { ids } = body;
+
+  let due: Due | null = null;
+  if (body.action === "due_date" && body.value !== null) {
+    const { value } = body;
+    due = parseField("value", () => parseDue(value));
+  }
+
+  const uniqueIds = [...new Set(ids)];
+  const mutationId = crypto.randomUUID();
+
+  const previous = await db.task.findMany({
+    where: { id: { in: uniqueIds }, deleted_at: null },
+    include: TASK_INCLUDE,
+  });
+  if (previous.length !== uniqueIds.length) {
+    const found = new Set(previous.map((t) => t.id));
+    const missing = uniqueIds.filter((id) => !found.has(id));
+    throw new ServiceError(`Tasks not found: ${missing.join(", ")}`, 404);
+  }
+
+  const projectId =
+    body.action === "project" ? await ensureProject(db, body.value) : null;
+
+  const result = await db.$transaction(async (tx) => {
+    const events: Prisma.TaskEventCreateManyInput[] = [];
+    const updated = [];
+    const created = [];
+
+    if (body.action === "delete") {
+      await tx.task.updateMany({
+        where: { id: { in: uniqueIds } },
+        data: { deleted_at: new Date() },
+      });
+      events.push(...previous.map((t) => deletedEvent(t, actor)));
+    } else {
+      const data: TaskUpdates =
+        body.action === "status"
+          ? { status: body.value }
+          : body.action === "project"
+            ? { project_id: projectId! }
+            : due
+              ? { due_date: due.date, ...(due.time ? { due_time: due.time } : {}) }
+              : { due_date: null, due_time: null };
+
+      for (const task of previous) {
+        // Recurring tasks roll over to their next occurrence, as they do
+        // when completed one at a time
+        if (data.status === "done" && task.status !== "done" && task.recurrence) {
+          const done = await completeRecurring(
+            tx,
+            task,
+            data,
+            task.recurrence,
+            actor
+          );
+          updated.push(done.completed);
+          if (done.next) created.push(done.next);
+          events.push(...done.events);
+          continue;
+        }
+        updated.push(
+          await tx.task.update({
+            where: { id: task.id },
+            data,
+            include: TASK_INCLUDE,
+          })
+        );
+        events.push(...updateEvents(task, data, actor));
+      }
+    }
+
+    await tx.taskEvent.createMany({ data: inMutation(mutationId, events) });
+    return { updated, created };
+  });
+
+  publish({ type: "tasks.changed" });
+  return {
+    result: {
+      updated: result.updated.map(serializeTask),
+      created: result.created.map(serializeTask),
+      deleted: body.action === "delete" ? uniqueIds : [],
+    },
+    mutationId,
+  };
+}
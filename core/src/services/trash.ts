@@ -0,0 +1,131 @@
+import type { Project } from "@prisma/client";
+import { db } from "../db";
+import { ServiceError } from "../errors";
+import { publish } from "../events";
+import {
+  inMutation,
+  restoredEvent,
+  type Actor,
+  type Mutation,
+} from "../history";
+import {
+  serializeTask,
+  TASK_INCLUDE,
+  type TaskResponse,
+} from "../responses";
+import {
+  purgeExpiredTrash,
+  purgeTasks,
+  restoreProject,
+  restoreTask,
+  trashRetentionDays,
+} from "../trash";
+
+export type TrashContents = {
+  tasks: TaskResponse[];
+  projects: Project[];
+  retention_days: number;
+};
+
+export async function listTrash(): Promise<TrashContents> {
+  await purgeExpiredTrash();
+
+  const [tasks, projects] = await Promise.all([
+    db.task.findMany({
+      where: { deleted_at: { not: null } },
+      orderBy: { deleted_at: "desc" },
+      include: TASK_INCLUDE,
+    }),
+    db.project.findMany({
+      where: { deleted_at: { not: null } },
+      orderBy: { deleted_at: "desc" },
+    }),
+  ]);
+
+  return {
+    tasks: tasks.map(serializeTask),
+    projects,
+    retention_days: trashRetentionDays(),
+  };
+}
+
+/** Empties the trash for good. */
+export async function emptyTrash(actor: Actor): Promise<void> {
+  await purgeTasks({}, actor);
+  await db.project.deleteMany({
+    where: { deleted_at: { not: null }, tasks: { none: {} } },
+  });
+}
+
+export async function purgeTrashedTask(id: string, actor: Actor): Promise<void> {
+  const purged = await purgeTasks({ id }, actor);
+  if (purged === 0) throw new ServiceError("Task not found in trash", 404);
+}
+
+/** Only a project with no tasks left, trashed or not, can be purged. */
+export async function purgeTrashedProject(id: string): Promise<void> {
+  const project = await db.project.findFirst({
+    where: { id, deleted_at: { not: null } },
+    include: { _count: { select: { tasks: true } } },
+  });
+  if (!project) throw new ServiceError("Project not found in trash", 404);
+  if (project._count.tasks > 0) {
+    throw new ServiceError("Project still has tasks and can't be purged", 409);
+  }
+
+  await db.project.delete({ where: { id } });
+}
+
+export async function restoreTrashedTask(
+  id: string,
+  actor: Actor
+): Promise<Mutation<TaskResponse>> {
+  const trashed = await db.task.findFirst({
+    where: { id, deleted_at: { not: null } },
+  });
+  if (!trashed) throw new ServiceError("Task not found in trash", 404);
+
+  const mutationId = crypto.randomUUID();
+
+  const task = await db.$transaction(async (tx) => {
+    const restored = await restoreTask(tx, id);
+    await tx.taskEvent.createMany({
+      data: inMutation(mutationId, [restoredEvent(restored, actor)]),
+    });
+    return restored;
+  });
+
+  publish({ type: "task.updated", task: serializeTask(task) });
+  return { result: serializeTask(task), mutationId };
+}
+
+/**
+ * Brings the project back along with the tasks its deletion moved out.
+ * Only a restore that moved tasks back has a mutation ID, since nothing
+ * else is logged.
+ */
+export async function restoreTrashedProject(
+  id: string,
+  actor: Actor
+): Promise<Mutation<Project>> {
+  const mutationId = crypto.randomUUID();
+
+  const restored = await db.$transaction(async (tx) => {
+    const result = await restoreProject(tx, id, actor);
+    if (result) {
+      await tx.taskEvent.createMany({
+        data: inMutation(mutationId, result.events),
+      });
+    }
+    return result;
+  });
+  if (!restored) throw new ServiceError("Project not found in trash", 404);
+
+  const movedTasks = restored.events.length > 0;
+  publish({ type: "projects.changed" });
+  if (movedTasks) publish({ type: "tasks.changed" });
+  return {
+    result: restored.project,
+    mutationId: movedTasks ? mutationId : null,
+  };
+}
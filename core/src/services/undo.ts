@@ -0,0 +1,27 @@
+import type { undoBody, Output } from "action-center-schemas";
+import { ServiceError } from "../errors";
+import { publish } from "../events";
+import type { Actor } from "../history";
+import { undoLast, undoMutation, type UndoneMutation } from "../undo";
+
+/**
+ * Undoes one change by its mutation ID, or the last `steps` changes
+ * (optionally only those `actor` made), on behalf of `undoer`.
+ */
+export async function undoChanges(
+  { mutation_id, steps, actor }: Output<typeof undoBody>,
+  undoer: Actor
+): Promise<{ undone: UndoneMutation[] }> {
+  if (mutation_id) {
+    const undone = await undoMutation(mutation_id, undoer);
+    if (!undone) {
+      throw new ServiceError("Change not found or already undone", 404);
+    }
+    publish({ type: "tasks.changed" });
+    return { undone: [undone] };
+  }
+
+  const undone = await undoLast(steps, undoer, actor);
+  if (undone.length > 0) publish({ type: "tasks.changed" });
+  return { undone };
+}
@@ -0,0 +1,53 @@
+import { db } from "./db";
+import { minuteIn } from "./dates";
+import { publish } from "./events";
+import { inMutation, updateEvents } from "./history";
+
+// Snoozed tasks are woken (moved back to "pending") in the database, so
+// status filters see them as they are. Snoozes end on a day or a minute,
+// and the watermark records the minute everything up to has been woken, so
+// this does real work at most once a minute however often tasks are read.
+
+const WATERMARK = "snoozes";
+
+/**
+ * Wakes every task whose snooze has ended, recording each as a status
+ * change. Run before reading tasks so `?status=` filters are current.
+ * Returns how many tasks woke.
+ */
+export async function wakeExpiredSnoozes(instant = new Date()): Promise<number> {
+  const now = minuteIn(instant);
+  const mark = await db.watermark.findUnique({ where: { name: WATERMARK } });
+  if (mark && mark.value >= now) return 0;
+
+  const woken = await db.$transaction(async (tx) => {
+    const expired = await tx.task.findMany({
+      where: { status: "snoozed", snoozed_until: { lte: now } },
+    });
+    const wake = { status: "pending", snoozed_until: null };
+
+    if (expired.length > 0) {
+      await tx.task.updateMany({
+        where: { id: { in: expired.map((t) => t.id) } },
+        data: wake,
+      });
+      // Waking is not something to undo; the snooze itself still is
+      await tx.taskEvent.createMany({
+        data: inMutation(
+          crypto.randomUUID(),
+          expired.flatMap((t) => updateEvents(t, wake, "system")),
+          false
+        ),
+      });
+    }
+    await tx.watermark.upsert({
+      where: { name: WATERMARK },
+      create: { name: WATERMARK, value: now },
+      update: { value: now },
+    });
+    return expired.length;
+  });
+
+  if (woken > 0) publish({ type: "tasks.changed" });
+  return woken;
+}
@@ -0,0 +1,32 @@
+import type { Prisma } from "@prisma/client";
+
+// Tag names are case-insensitive slugs, so "Waiting on legal" and
+// "waiting-on-legal" are the same tag
+export function normaliseTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/** Normalised names, without duplicates or empties. */
+export function normaliseTagNames(names: string[]): string[] {
+  return [...new Set(names.map(normaliseTagName).filter(Boolean))];
+}
+
+/**
+ * Replaces a task's tags, creating any that don't exist yet. Returns the
+ * task's new tags.
+ */
+export async function setTaskTags(
+  tx: Prisma.TransactionClient,
+  taskId: string,
+  names: string[]
+) {
+  for (const name of names) {
+    await tx.tag.upsert({ where: { name }, update: {}, create: { name } });
+  }
+  const task = await tx.task.update({
+    where: { id: taskId },
+    data: { tags: { set: names.map((name) => ({ name })) } },
+    include: { tags: { orderBy: { name: "asc" } } },
+  });
+  return task.tags;
+}
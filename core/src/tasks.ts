@@ -0,0 +1,82 @@
+import type { Prisma, Task } from "@prisma/client";
+import { TASK_INCLUDE } from "./responses";
+import { todayIn } from "./dates";
+import {
+  createdEvent,
+  updateEvents,
+  type Actor,
+  type TaskSnapshot,
+} from "./history";
+import { anchorRecurrence, nextOccurrence } from "./recurrence";
+
+export type TaskUpdates = Partial<
+  Pick<
+    Task,
+    | "title"
+    | "notes"
+    | "project_id"
+    | "status"
+    | "priority"
+    | "due_date"
+    | "due_time"
+    | "snoozed_until"
+    | "recurrence"
+  >
+>;
+
+/**
+ * Completing a recurring task hands its rule (and a fresh copy of its
+ * checklist) over to a newly created next occurrence, so reopening and
+ * re-completing it never spawns a duplicate. The caller records the
+ * returned events under its own mutation ID.
+ */
+export async function completeRecurring(
+  tx: Prisma.TransactionClient,
+  previous: TaskSnapshot,
+  data: TaskUpdates,
+  recurrence: string,
+  actor: Actor
+) {
+  const task = { ...previous, ...data };
+  const today = todayIn();
+  const from = task.due_date ?? today;
+  // The next occurrence carries the day this one was due on, so a series
+  // on the 31st isn't pulled back to the 28th for good by February
+  const rule = anchorRecurrence(recurrence, from);
+  const due = nextOccurrence(rule, from, today);
+  const updates = { ...data, recurrence: null };
+
+  const completed = await tx.task.update({
+    where: { id: previous.id },
+    data: updates,
+    include: TASK_INCLUDE,
+  });
+  const next = due
+    ? await tx.task.create({
+        data: {
+          title: task.title,
+          notes: task.notes,
+          project: { connect: { id: task.project_id } },
+          priority: task.priority,
+          due_date: due,
+          due_time: task.due_time,
+          recurrence: rule,
+          source: task.source,
+          tags: { connect: previous.tags.map(({ id }) => ({ id })) },
+          subtasks: {
+            create: previous.subtasks.map(({ title, position }) => ({
+              title,
+              position,
+            })),
+          },
+        },
+        include: TASK_INCLUDE,
+      })
+    : null;
+
+  const events = [
+    ...updateEvents(previous, updates, actor),
+    ...(next ? [createdEvent(next, actor)] : []),
+  ];
+  return { completed, next, events };
+}
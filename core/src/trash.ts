@@ -0,0 +1,137 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { TASK_INCLUDE } from "./responses";
+import {
+  inMutation,
+  purgedEvent,
+  updateEvents,
+  type Actor,
+  type FieldChange,
+} from "./history";
+
+// Deleted tasks and projects are soft-deleted into the trash and purged for
+// good once they have been there longer than TRASH_RETENTION_DAYS (default
+// 30). Set it to 0 to keep trashed items until they are purged by hand.
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Takes a task out of the trash, bringing its project back with it if the
+ * project was trashed too.
+ */
+export async function restoreTask(tx: Prisma.TransactionClient, id: string) {
+  const task = await tx.task.update({
+    where: { id },
+    data: { deleted_at: null },
+    include: TASK_INCLUDE,
+  });
+  await tx.project.update({
+    where: { id: task.project_id },
+    data: { deleted_at: null },
+  });
+  return task;
+}
+
+/**
+ * Takes a project out of the trash and moves back the tasks its deletion
+ * filed under Uncategorised, leaving any that have been moved on since.
+ * Returns null if the project isn't in the trash; otherwise the caller
+ * records the returned events under its own mutation ID.
+ */
+export async function restoreProject(
+  tx: Prisma.TransactionClient,
+  id: string,
+  actor: Actor
+) {
+  const trashed = await tx.project.findFirst({
+    where: { id, deleted_at: { not: null } },
+  });
+  if (!trashed) return null;
+
+  // Where the deletion sent each of the project's tasks
+  const movedTo = new Map<string, string | null>();
+  if (trashed.deletion_id) {
+    const moves = await tx.taskEvent.findMany({
+      where: { mutation_id: trashed.deletion_id },
+    });
+    for (const e of moves) {
+      const changes = JSON.parse(e.changes ?? "{}") as Record<string, FieldChange>;
+      if (changes.project_id?.from === id) {
+        movedTo.set(e.task_id, changes.project_id.to);
+      }
+    }
+  }
+
+  const tasks = (
+    await tx.task.findMany({ where: { id: { in: [...movedTo.keys()] } } })
+  ).filter((t) => t.project_id === movedTo.get(t.id));
+
+  await tx.task.updateMany({
+    where: { id: { in: tasks.map((t) => t.id) } },
+    data: { project_id: id },
+  });
+  const project = await tx.project.update({
+    where: { id },
+    data: { deleted_at: null, deletion_id: null },
+  });
+
+  const events = tasks.flatMap((t) => updateEvents(t, { project_id: id }, actor));
+  return { project, events };
+}
+
+/**
+ * Permanently deletes trashed tasks matching `where`. Their earlier events
+ * stop being undoable, since purging is meant to be final.
+ */
+export async function purgeTasks(
+  where: Prisma.TaskWhereInput,
+  actor: Actor
+): Promise<number> {
+  const tasks = await db.task.findMany({
+    where: { AND: [where, { deleted_at: { not: null } }] },
+    select: { id: true },
+  });
+  const ids = tasks.map((t) => t.id);
+  if (ids.length === 0) return 0;
+
+  await db.$transaction([
+    db.task.deleteMany({ where: { id: { in: ids } } }),
+    db.taskEvent.updateMany({
+      where: { task_id: { in: ids } },
+      data: { undoable: false },
+    }),
+    db.taskEvent.createMany({
+      data: inMutation(
+        crypto.randomUUID(),
+        ids.map((id) => purgedEvent(id, actor)),
+        false
+      ),
+    }),
+  ]);
+  return ids.length;
+}
+
+let lastPurge = 0;
+
+/**
+ * Permanently deletes trash older than the retention period. Runs at most
+ * once an hour per process, piggybacking on regular reads.
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  const days = trashRetentionDays();
+  if (days === 0 || Date.now() - lastPurge < PURGE_INTERVAL_MS) return;
+  lastPurge = Date.now();
+
+  const cutoff = new Date(Date.now() - days * DAY_MS);
+  await purgeTasks({ deleted_at: { lt: cutoff } }, "system");
+  await db.project.deleteMany({
+    where: { deleted_at: { lt: cutoff }, tasks: { none: {} } },
+  });
+}
@@ -0,0 +1,250 @@
+import type { Prisma, Task, TaskEvent } from "@prisma/client";
+import { db } from "./db";
+import { TASK_INCLUDE } from "./responses";
+import { ensureProject } from "./projects";
+import { setTaskTags } from "./tags";
+import { restoreTask } from "./trash";
+import {
+  createdEvent,
+  deletedEvent,
+  inMutation,
+  restoredEvent,
+  tagList,
+  tagsEvent,
+  updateEvents,
+  type Actor,
+  type FieldChange,
+  type RepoMove,
+  type TaskSnapshot,
+} from "./history";
+
+// The undo stack is the audit log: every undoable mutation is a group of
+// TaskEvents sharing a mutation_id, newest first. Undoing one applies the
+// inverse of each event and records the reversal as a new, non-undoable
+// mutation so the history still shows what happened.
+
+export type UndoneChange = {
+  task_id: string;
+  title: string | null;
+  type: string;
+};
+
+export type UndoneMutation = {
+  mutation_id: string;
+  actor: string;
+  changes: UndoneChange[];
+};
+
+type Reversal = {
+  title: string | null;
+  events: Prisma.TaskEventCreateManyInput[];
+};
+
+// Hands a merged project's repository back, unless the project it went to
+// has since been unlinked or linked to another one
+async function returnRepo(
+  tx: Prisma.TransactionClient,
+  { repo_path, from, to }: RepoMove
+) {
+  const { count } = await tx.project.updateMany({
+    where: { id: to, repo_path },
+    data: { repo_path: null },
+  });
+  if (count === 0) return;
+  await tx.project.updateMany({
+    where: { id: from, repo_path: null },
+    data: { repo_path },
+  });
+}
+
+async function revertEvent(
+  tx: Prisma.TransactionClient,
+  e: TaskEvent,
+  actor: Actor
+): Promise<Reversal> {
+  switch (e.type) {
+    // Undoing a create or a restore moves the task (back) to the trash
+    case "created":
+    case "restored": {
+      const task = await tx.task.findFirst({
+        where: { id: e.task_id, deleted_at: null },
+        include: TASK_INCLUDE,
+      });
+      if (!task) return { title: null, events: [] };
+      await tx.task.update({
+        where: { id: task.id },
+        data: { deleted_at: new Date() },
+      });
+      return { title: task.title, events: [deletedEvent(task, actor)] };
+    }
+
+    // Undoing a delete restores from the trash, or rebuilds the task from
+    // its snapshot if the trash has since been purged
+    case "deleted": {
+      const existing = await tx.task.findUnique({ where: { id: e.task_id } });
+      if (existing?.deleted_at) {
+        const task = await restoreTask(tx, existing.id);
+        return { title: task.title, events: [restoredEvent(task, actor)] };
+      }
+      if (existing || !e.snapshot) {
+        return { title: existing?.title ?? null, events: [] };
+      }
+
+      // Snapshots taken before projects became a relation store the name
+      const snapshot = JSON.parse(e.snapshot) as Omit<TaskSnapshot, "project"> & {
+        project: TaskSnapshot["project"] | string;
+      };
+      const projectId = await ensureProject(
+        tx,
+        typeof snapshot.project === "string"
+          ? snapshot.project
+          : snapshot.project.name
+      );
+      const task = await tx.task.create({
+        data: {
+          id: snapshot.id,
+          title: snapshot.title,
+          notes: snapshot.notes,
+          project: { connect: { id: projectId } },
+          status: snapshot.status,
+          priority: snapshot.priority,
+          due_date: snapshot.due_date,
+          // Snapshots taken before due times existed have none
+          due_time: snapshot.due_time ?? null,
+          snoozed_until: snapshot.snoozed_until,
+          recurrence: snapshot.recurrence,
+          source: snapshot.source,
+          created_at: snapshot.created_at,
+          // Snapshots taken before tags existed have none
+          tags: {
+            connectOrCreate: (snapshot.tags ?? []).map(({ name }) => ({
+              where: { name },
+              create: { name },
+            })),
+          },
+          subtasks: {
+            create: snapshot.subtasks.map((s) => ({
+              id: s.id,
+              title: s.title,
+              done: s.done,
+              position: s.position,
+              created_at: s.created_at,
+            })),
+          },
+        },
+      });
+      return { title: task.title, events: [createdEvent(task, actor)] };
+    }
+
+    default: {
+      const task = await tx.task.findUnique({
+        where: { id: e.task_id },
+        include: { tags: true },
+      });
+      if (!task || !e.changes) return { title: task?.title ?? null, events: [] };
+
+      // Fields that have been changed again since are left alone
+      const { tags, ...changes } = JSON.parse(e.changes) as Record<
+        string,
+        FieldChange
+      >;
+      const revert: Record<string, string | null> = {};
+      for (const [field, { from, to }] of Object.entries(changes)) {
+        if ((task[field as keyof Task] ?? null) === to) revert[field] = from;
+      }
+
+      // Moving a task back to a project brings that project back too; if it
+      // has since been purged, the task stays where it is
+      if (revert.project_id) {
+        const { count } = await tx.project.updateMany({
+          where: { id: revert.project_id },
+          data: { deleted_at: null, deletion_id: null },
+        });
+        if (count === 0) delete revert.project_id;
+      }
+      if (revert.project_id && e.snapshot) {
+        const { repo_move } = JSON.parse(e.snapshot) as { repo_move?: RepoMove };
+        if (repo_move) await returnRepo(tx, repo_move);
+      }
+
+      const events: Prisma.TaskEventCreateManyInput[] = [];
+      if (tags && tagList(task.tags) === tags.to) {
+        const names = tags.from ? tags.from.split(", ") : [];
+        await setTaskTags(tx, task.id, names);
+        events.push(
+          ...tagsEvent(task.id, task.tags, names.map((name) => ({ name })), actor)
+        );
+      }
+      if (Object.keys(revert).length > 0) {
+        await tx.task.update({ where: { id: task.id }, data: revert });
+        events.push(...updateEvents(task, revert, actor));
+      }
+      return { title: revert.title ?? task.title, events };
+    }
+  }
+}
+
+/**
+ * Reverses one mutation. Returns null when it doesn't exist or has already
+ * been undone.
+ */
+export async function undoMutation(
+  mutationId: string,
+  actor: Actor
+): Promise<UndoneMutation | null> {
+  const events = await db.taskEvent.findMany({
+    where: { mutation_id: mutationId, undoable: true },
+    orderBy: { created_at: "desc" },
+  });
+  if (events.length === 0) return null;
+
+  const reversalId = crypto.randomUUID();
+
+  return db.$transaction(async (tx) => {
+    const changes: UndoneChange[] = [];
+    const reversals: Prisma.TaskEventCreateManyInput[] = [];
+
+    for (const e of events) {
+      const { title, events: inverse } = await revertEvent(tx, e, actor);
+      changes.push({ task_id: e.task_id, title, type: e.type });
+      reversals.push(...inverse);
+    }
+
+    await tx.taskEvent.updateMany({
+      where: { mutation_id: mutationId },
+      data: { undoable: false },
+    });
+    await tx.taskEvent.createMany({
+      data: inMutation(reversalId, reversals, false),
+    });
+
+    return { mutation_id: mutationId, actor: events[0].actor, changes };
+  });
+}
+
+/**
+ * Pops up to `steps` mutations off the undo stack, optionally only those
+ * made by `onlyBy` (so Claude can undo its own mistakes without touching
+ * edits made in the UI).
+ */
+export async function undoLast(
+  steps: number,
+  actor: Actor,
+  onlyBy?: Actor
+): Promise<UndoneMutation[]> {
+  const undone: UndoneMutation[] = [];
+
+  while (undone.length < steps) {
+    const latest = await db.taskEvent.findFirst({
+      where: { undoable: true, ...(onlyBy ? { actor: onlyBy } : {}) },
+      orderBy: { created_at: "desc" },
+    });
+    if (!latest) break;
+
+    const result = await undoMutation(latest.mutation_id, actor);
+    if (!result) break;
+    undone.push(result);
+  }
+
+  return undone;
+}
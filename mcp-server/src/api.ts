@@ -0,0 +1,159 @@
+import type {
+  bulkTasksBody,
+  createSubtaskBody,
+  createTaskBody,
+  listProjectsQuery,
+  listTasksQuery,
+  mergeProjectBody,
+  undoBody,
+  updateProjectBody,
+  updateSubtaskBody,
+  updateTaskBody,
+} from "action-center-schemas";
+import type { z } from "zod";
+
+// Everything the MCP server asks of the Action Center. httpApi sends it to
+// the running app's REST API, while embeddedApi (./embedded) calls the same
+// services the routes do, in this process. Results come back alike either
+// way: the response body, or its `error` message and status on failure.
+
+export type ApiResult = { ok: boolean; status: number; data: unknown };
+
+// Mirrors the events the app pushes on GET /api/events
+export type ChangeEvent =
+  | { type: "task.created" | "task.updated"; task: { id: string } }
+  | { type: "task.deleted"; id: string }
+  | { type: "tasks.changed" | "projects.changed" | "tags.changed" };
+
+type Input<S extends z.ZodTypeAny> = z.input<S>;
+
+export interface ActionCenterApi {
+  readSettings(): Promise<ApiResult>;
+  /** One page of tasks, as `{ tasks, total }` with the count across pages. */
+  listTasks(query: Input<typeof listTasksQuery>): Promise<ApiResult>;
+  getTask(id: string): Promise<ApiResult>;
+  createTask(body: Input<typeof createTaskBody>): Promise<ApiResult>;
+  updateTask(id: string, body: Input<typeof updateTaskBody>): Promise<ApiResult>;
+  deleteTask(id: string): Promise<ApiResult>;
+  bulkUpdateTasks(body: Input<typeof bulkTasksBody>): Promise<ApiResult>;
+  listSubtasks(taskId: string): Promise<ApiResult>;
+  addSubtask(taskId: string, body: Input<typeof createSubtaskBody>): Promise<ApiResult>;
+  updateSubtask(
+    taskId: string,
+    subtaskId: string,
+    body: Input<typeof updateSubtaskBody>
+  ): Promise<ApiResult>;
+  listProjects(query?: Input<typeof listProjectsQuery>): Promise<ApiResult>;
+  updateProject(id: string, body: Input<typeof updateProjectBody>): Promise<ApiResult>;
+  deleteProject(id: string): Promise<ApiResult>;
+  findDuplicateProjects(): Promise<ApiResult>;
+  mergeProject(id: string, body: Input<typeof mergeProjectBody>): Promise<ApiResult>;
+  undo(body: Input<typeof undoBody>): Promise<ApiResult>;
+  /** Calls `onEvent` for every change until `signal` aborts. */
+  watch(signal: AbortSignal, onEvent: (event: ChangeEvent) => Promise<void>): Promise<void>;
+}
+
+const TOTAL_COUNT_HEADER = "X-Total-Count";
+const RECONNECT_MS = 5_000;
+
+/** Talks to the app's REST API at `baseUrl`, which must be running. */
+export function httpApi(baseUrl: string): ActionCenterApi {
+  async function send(
+    path: string,
+    method = "GET",
+    body?: unknown
+  ): Promise<ApiResult & { headers: Headers }> {
+    try {
+      const response = await fetch(`${baseUrl}/api${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          // Attributes every change to Claude in the task history
+          "X-Actor": "claude",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch {
+        data = null;
+      }
+      return { ok: response.ok, status: response.status, data, headers: response.headers };
+    } catch {
+      throw new Error(
+        `Action Center is not running or not reachable at ${baseUrl}. ` +
+          `Start it with: bun dev (inside action-center-app/), or run this server with --embedded`
+      );
+    }
+  }
+
+  const task = (id: string) => `/tasks/${encodeURIComponent(id)}`;
+  const project = (id: string) => `/projects/${encodeURIComponent(id)}`;
+  const query = (params: Record<string, string | undefined> = {}) => {
+    const defined = Object.entries(params).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    );
+    return defined.length > 0 ? `?${new URLSearchParams(defined)}` : "";
+  };
+
+  return {
+    readSettings: () => send("/settings"),
+    async listTasks(params) {
+      const { headers, ...result } = await send(`/tasks${query(params)}`);
+      if (!result.ok) return result;
+      const tasks = result.data as unknown[];
+      const total = Number(
+        headers.get(TOTAL_COUNT_HEADER) ?? Number(params.offset ?? 0) + tasks.length
+      );
+      return { ...result, data: { tasks, total } };
+    },
+    getTask: (id) => send(task(id)),
+    createTask: (body) => send("/tasks", "POST", body),
+    updateTask: (id, body) => send(task(id), "PATCH", body),
+    deleteTask: (id) => send(task(id), "DELETE"),
+    bulkUpdateTasks: (body) => send("/tasks/bulk", "POST", body),
+    listSubtasks: (taskId) => send(`${task(taskId)}/subtasks`),
+    addSubtask: (taskId, body) => send(`${task(taskId)}/subtasks`, "POST", body),
+    updateSubtask: (taskId, subtaskId, body) =>
+      send(`${task(taskId)}/subtasks/${encodeURIComponent(subtaskId)}`, "PATCH", body),
+    listProjects: (params) => send(`/projects${query(params)}`),
+    updateProject: (id, body) => send(project(id), "PATCH", body),
+    deleteProject: (id) => send(project(id), "DELETE"),
+    findDuplicateProjects: () => send("/projects/duplicates"),
+    mergeProject: (id, body) => send(`${project(id)}/merge`, "POST", body),
+    undo: (body) => send("/undo", "POST", body),
+
+    // Follows the app's server-sent event stream, reconnecting if the app
+    // restarts
+    async watch(signal, onEvent) {
+      while (!signal.aborted) {
+        try {
+          const response = await fetch(`${baseUrl}/api/events`, { signal });
+          if (!response.ok || !response.body) throw new Error("No event stream");
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = "";
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const frames = buffer.split("\n\n");
+            buffer = frames.pop() ?? "";
+            for (const frame of frames) {
+              // Heartbeats are comment lines and carry no data
+              const data = frame
+                .split("\n")
+                .filter((line) => line.startsWith("data: "))
+                .map((line) => line.slice("data: ".length))
+                .join("\n");
+              if (data) await onEvent(JSON.parse(data) as ChangeEvent);
+            }
+          }
+        } catch {
+          // The app is down or restarting; try again shortly
+        }
+        if (!signal.aborted) await new Promise((r) => setTimeout(r, RECONNECT_MS));
+      }
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { FieldError, ServiceError } from "action-center-core/errors";
+import { subscribe } from "action-center-core/events";
+import {
+  deleteProject,
+  findDuplicateProjects,
+  listProjects,
+  mergeProject,
+  updateProject,
+} from "action-center-core/services/projects";
+import { readSettings } from "action-center-core/services/settings";
+import {
+  addSubtask,
+  listSubtasks,
+  updateSubtask,
+} from "action-center-core/services/subtasks";
+import {
+  bulkUpdateTasks,
+  createTask,
+  deleteTask,
+  getTask,
+  listTasks,
+  updateTask,
+} from "action-center-core/services/tasks";
+import { undoChanges } from "action-center-core/services/undo";
+import {
+  bulkTasksBody,
+  createSubtaskBody,
+  createTaskBody,
+  listProjectsQuery,
+  listTasksQuery,
+  mergeProjectBody,
+  undoBody,
+  updateProjectBody,
+  updateSubtaskBody,
+  updateTaskBody,
+  validate,
+  type Output,
+  type Schema,
+} from "action-center-schemas";
+import type { ActionCenterApi, ApiResult } from "./api";
+
+// Embedded mode works on the database DATABASE_URL points to, so tasks can
+// be captured while the app is down. Input is checked against the schemas
+// the routes use, and refusals come back as the bodies they would send.
+
+const ACTOR = "claude";
+
+async function run(work: () => Promise<unknown> | unknown, status = 200): Promise<ApiResult> {
+  try {
+    // Passed through JSON as a response body would be, so dates arrive as
+    // strings here too
+    const data = JSON.parse(JSON.stringify((await work()) ?? null));
+    return { ok: true, status, data };
+  } catch (err) {
+    if (err instanceof FieldError) {
+      return { ok: false, status: err.status, data: { error: err.message, fields: { [err.field]: err.reason } } };
+    }
+    if (err instanceof ServiceError) {
+      return { ok: false, status: err.status, data: { error: err.message } };
+    }
+    throw new Error(`Couldn't use the Action Center database: ${(err as Error).message}`);
+  }
+}
+
+// Validates `input` as the route would before running `work` with it
+async function runWith<S extends Schema>(
+  schema: S,
+  input: unknown,
+  work: (data: Output<S>) => Promise<unknown>,
+  status = 200
+): Promise<ApiResult> {
+  const parsed = validate(schema, input);
+  if (!parsed.ok) {
+    return { ok: false, status: 400, data: { error: parsed.error, fields: parsed.fields } };
+  }
+  return run(() => work(parsed.data), status);
+}
+
+const result = async <T>(mutation: Promise<{ result: T }>) => (await mutation).result;
+
+export function embeddedApi(): ActionCenterApi {
+  return {
+    readSettings: () => run(readSettings),
+    listTasks: (query) => runWith(listTasksQuery, query, listTasks),
+    getTask: (id) => run(() => getTask(id)),
+    createTask: (body) => runWith(createTaskBody, body, (data) => result(createTask(data)), 201),
+    updateTask: (id, body) =>
+      runWith(updateTaskBody, body, (data) => result(updateTask(id, data, ACTOR))),
+    deleteTask: (id) => run(() => deleteTask(id, ACTOR).then(() => null), 204),
+    bulkUpdateTasks: (body) =>
+      runWith(bulkTasksBody, body, (data) => result(bulkUpdateTasks(data, ACTOR))),
+    listSubtasks: (taskId) => run(() => listSubtasks(taskId)),
+    addSubtask: (taskId, body) =>
+      runWith(createSubtaskBody, body, (data) => addSubtask(taskId, data), 201),
+    updateSubtask: (taskId, subtaskId, body) =>
+      runWith(updateSubtaskBody, body, (data) => updateSubtask(taskId, subtaskId, data)),
+    listProjects: (query = {}) =>
+      runWith(listProjectsQuery, query, ({ path }) => listProjects(path)),
+    updateProject: (id, body) => runWith(updateProjectBody, body, (data) => updateProject(id, data)),
+    deleteProject: (id) => run(() => deleteProject(id, ACTOR).then(() => null), 204),
+    findDuplicateProjects: () => run(findDuplicateProjects),
+    mergeProject: (id, body) =>
+      runWith(mergeProjectBody, body, (data) => result(mergeProject(id, data, ACTOR))),
+    undo: (body) => runWith(undoBody, body, (data) => undoChanges(data, ACTOR)),
+
+    // Only changes made through this process are heard. A notification that
+    // can't be sent means the client is gone, so listening stops there.
+    async watch(signal, onEvent) {
+      if (signal.aborted) return;
+      const unsubscribe = subscribe((event) => {
+        onEvent(event).catch((err) => {
+          console.error(`Couldn't send a change notification: ${(err as Error).message}`);
+          unsubscribe();
+        });
+      });
+      signal.addEventListener("abort", unsubscribe, { once: true });
+    },
+  };
+}
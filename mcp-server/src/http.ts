@@ -0,0 +1,164 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Streamable HTTP lets one long-running server be shared by several clients.
+// Each client's initialize request starts a session with its own server, and
+// the session ID the transport hands back routes its later requests (and the
+// SSE stream of notifications) to it until the client ends the session.
+
+export const MCP_PATH = "/mcp";
+
+// Every request must carry the shared secret, since anyone who can reach the
+// port could otherwise read and change tasks
+export const SECRET_HEADER = "X-Action-Center-Secret";
+
+const SESSION_HEADER = "mcp-session-id";
+
+// Clients that go away without ending their session would otherwise keep it,
+// and its server, forever. One that comes back after being closed gets a 404
+// and starts a new session. A session with an SSE stream open is still in
+// use, since a client waiting for notifications sends no requests.
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_SESSIONS = 50;
+
+type Session = {
+  server: McpServer;
+  transport: WebStandardStreamableHTTPServerTransport;
+  lastSeen: number;
+  openStreams: number;
+};
+
+type HttpOptions = {
+  hostname: string;
+  port: number;
+  secret: string;
+};
+
+// Shaped like the transport's own errors so clients report them the same way
+function errorResponse(status: number, message: string): Response {
+  return Response.json(
+    { jsonrpc: "2.0", error: { code: -32000, message }, id: null },
+    { status }
+  );
+}
+
+// Compares digests so neither the secret's contents nor its length leak
+// through how long the comparison takes
+function hasSecret(request: Request, secret: string): boolean {
+  const given = request.headers.get(SECRET_HEADER);
+  if (given === null) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(given), digest(secret));
+}
+
+// Passes the body through unchanged, calling `onEnd` once when it finishes
+// or the client disconnects
+function onStreamEnd(response: Response, onEnd: () => void): Response {
+  if (!response.body) return response;
+  const reader = response.body.getReader();
+  let ended = false;
+  const end = () => {
+    if (!ended) {
+      ended = true;
+      onEnd();
+    }
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        end();
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      end();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, headers: response.headers });
+}
+
+/**
+ * Serves MCP over Streamable HTTP at `MCP_PATH`, calling `createServer` for
+ * each new session.
+ */
+export function serveHttp(
+  createServer: () => McpServer,
+  { hostname, port, secret }: HttpOptions
+) {
+  const sessions = new Map<string, Session>();
+
+  // Closing the server closes its transport, whose onclose forgets the session
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) {
+        session.server.close().catch((err) => {
+          console.error(`Couldn't close idle session ${id}: ${(err as Error).message}`);
+        });
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  return Bun.serve({
+    hostname,
+    port,
+    // SSE streams stay open with nothing to send until a resource changes
+    idleTimeout: 0,
+    async fetch(request) {
+      if (new URL(request.url).pathname !== MCP_PATH) {
+        return errorResponse(404, `Not found — the MCP endpoint is ${MCP_PATH}`);
+      }
+      if (!hasSecret(request, secret)) {
+        return errorResponse(401, `Missing or incorrect ${SECRET_HEADER} header`);
+      }
+
+      const sessionId = request.headers.get(SESSION_HEADER);
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        // A 404 tells the client to start a new session, e.g. after a restart
+        if (!session) return errorResponse(404, "Session not found");
+        session.lastSeen = Date.now();
+        const response = await session.transport.handleRequest(request);
+        if (!response.headers.get("content-type")?.startsWith("text/event-stream")) {
+          return response;
+        }
+        session.openStreams++;
+        return onStreamEnd(response, () => {
+          session.openStreams--;
+          session.lastSeen = Date.now();
+        });
+      }
+
+      // Without a session, the only request accepted is one that starts one
+      const body = request.method === "POST" ? await request.json().catch(() => null) : null;
+      if (!isInitializeRequest(body)) {
+        return errorResponse(400, `Missing ${SESSION_HEADER} header — send initialize first`);
+      }
+      if (sessions.size >= MAX_SESSIONS) {
+        return errorResponse(503, "Too many open sessions — try again later");
+      }
+
+      const server = createServer();
+      const transport = new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { server, transport, lastSeen: Date.now(), openStreams: 0 });
+        },
+      });
+      // Covers both the client ending the session and the server closing
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await server.connect(transport);
+      return transport.handleRequest(request, { parsedBody: body });
+    },
+  });
+}
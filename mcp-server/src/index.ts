@@ -1,41 +1,64 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  clearable,
+  duplicateProjectsResponse,
+  MAX_BULK_TASKS,
+  MAX_PAGE_SIZE,
+  projectFields,
+  projectKey,
+  projectResponse,
+  projectSummaryResponse,
+  subtaskFields,
+  subtaskResponse,
+  TASK_SORTS,
+  taskFields,
+  taskResponse,
+  undoFields,
+  undoneMutationResponse,
+} from "action-center-schemas";
+import { parseArgs } from "node:util";
 import { z } from "zod";
+import { httpApi, type ActionCenterApi, type ApiResult, type ChangeEvent } from "./api";
+import { MCP_PATH, SECRET_HEADER, serveHttp } from "./http";
 
 const BASE_URL = process.env.ACTION_CENTER_URL ?? "http://localhost:3000";
 
-// ─── HTTP helpers ─────────────────────────────────────────────────────────────
-
-type ApiResult = { ok: boolean; status: number; data: unknown };
-
-async function apiFetch(
-  path: string,
-  options: RequestInit = {}
-): Promise<ApiResult> {
-  const url = `${BASE_URL}/api${path}`;
-  try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        ...(options.headers ?? {}),
-      },
-    });
-    let data: unknown;
-    try {
-      data = await response.json();
-    } catch {
-      data = null;
-    }
-    return { ok: response.ok, status: response.status, data };
-  } catch {
-    throw new Error(
-      `Action Center is not running or not reachable at ${BASE_URL}. ` +
-        `Start it with: bun dev (inside action-center-app/)`
+const { values: flags } = parseArgs({
+  options: {
+    http: { type: "boolean" },
+    port: { type: "string" },
+    host: { type: "string" },
+    embedded: { type: "boolean" },
+  },
+});
+
+// ─── API ──────────────────────────────────────────────────────────────────────
+
+// Embedded mode (--embedded, or ACTION_CENTER_MODE=embedded) works on the
+// app's database directly rather than through the running app
+const EMBEDDED = flags.embedded || process.env.ACTION_CENTER_MODE === "embedded";
+
+async function loadApi(): Promise<ActionCenterApi> {
+  if (!EMBEDDED) return httpApi(BASE_URL);
+  // A relative path would be resolved against wherever the client started us
+  if (!process.env.DATABASE_URL) {
+    console.error(
+      "Set DATABASE_URL to the app's database in embedded mode, e.g. file:/absolute/path/to/action-center-app/dev.db"
     );
+    process.exit(1);
   }
+  // Loaded only here, so HTTP mode never opens the database
+  const { embeddedApi } = await import("./embedded");
+  return embeddedApi();
 }
 
+const api = await loadApi();
+
 function formatError(result: ApiResult): string {
   if (
     result.data &&
@@ -48,207 +71,1693 @@ function formatError(result: ApiResult): string {
   return `Request failed with status ${result.status}`;
 }
 
+// ─── Formatting ───────────────────────────────────────────────────────────────
+
+type TaskSummary = {
+  id: string;
+  title: string;
+  project: string;
+  status: string;
+  priority: string;
+  due_date: string | null;
+  due_time: string | null;
+  snoozed_until: string | null;
+  subtasks: Array<{ done: boolean }>;
+  tags: Array<{ name: string }>;
+};
+
+// Every field of a task, as returned in structured tool output
+type TaskRecord = z.infer<typeof taskResponse>;
+
+type SubtaskRecord = z.infer<typeof subtaskResponse>;
+
+// "2026-03-01 17:30", or just the date when the task has no due time
+function formatDue(t: { due_date: string | null; due_time?: string | null }): string | null {
+  if (!t.due_date) return null;
+  return t.due_time ? `${t.due_date} ${t.due_time}` : t.due_date;
+}
+
+type TaskDetail = TaskSummary & {
+  notes: string | null;
+  recurrence: string | null;
+  source: string;
+  created_at: string;
+  updated_at: string;
+  subtasks: Array<{ id: string; title: string; done: boolean }>;
+};
+
+function formatStatus(t: TaskSummary): string {
+  return t.status === "snoozed" && t.snoozed_until ? `snoozed until ${t.snoozed_until}` : t.status;
+}
+
+function formatTaskLine(t: TaskSummary): string {
+  const due = t.due_date ? ` · due ${formatDue(t)}` : "";
+  const status = formatStatus(t);
+  const steps =
+    t.subtasks.length > 0
+      ? ` · ${t.subtasks.filter((s) => s.done).length}/${t.subtasks.length} steps`
+      : "";
+  const tags = t.tags.map((tag) => ` #${tag.name}`).join("");
+  return `- [${t.id}] ${t.title} (${t.project})${tags} — ${t.priority} · ${status}${due}${steps}`;
+}
+
+// Everything about one task, full notes and checklist included
+function formatTaskDetail(t: TaskDetail): string {
+  return [
+    `# ${t.title}`,
+    `ID: ${t.id}`,
+    `Project: ${t.project}`,
+    `Status: ${formatStatus(t)}`,
+    `Priority: ${t.priority}`,
+    `Due: ${formatDue(t) ?? "unscheduled"}`,
+    t.recurrence && `Repeats: ${t.recurrence}`,
+    t.tags.length > 0 && `Tags: ${t.tags.map((tag) => tag.name).join(", ")}`,
+    `Added by: ${t.source} on ${t.created_at.split("T")[0]} · last changed ${t.updated_at.split("T")[0]}`,
+    t.notes && `\n${t.notes}`,
+    t.subtasks.length > 0 &&
+      `\nChecklist:\n${t.subtasks.map((s) => `- [${s.done ? "x" : " "}] ${s.title} (ID: ${s.id})`).join("\n")}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// ─── Projects ─────────────────────────────────────────────────────────────────
+
+type ProjectRecord = z.infer<typeof projectResponse>;
+
+type ProjectSummary = z.infer<typeof projectSummaryResponse>;
+
+function formatProjectLine(p: ProjectSummary): string {
+  const details = [
+    `${p.task_count} task(s)`,
+    p.archived && "archived",
+    p.repo_path && `linked to ${p.repo_path}`,
+  ].filter(Boolean);
+  const description = p.description ? ` — ${p.description}` : "";
+  return `- ${p.name} (${details.join(" · ")})${description}`;
+}
+
+// The project linked to `dir` (or its closest parent), or null if none is
+async function projectForDirectory(dir: string): Promise<ProjectSummary | null> {
+  const result = await api.listProjects({ path: dir });
+  if (!result.ok) return null;
+  return (result.data as ProjectSummary[])[0] ?? null;
+}
+
+// Looks a project up by name, ignoring case only, since the tools using it
+// change or remove the project. Throws a message Claude can relay if the API
+// is unreachable or there is no such project, suggesting similar names.
+async function findProject(name: string): Promise<ProjectSummary> {
+  const result = await api.listProjects();
+  if (!result.ok) throw new Error(formatError(result));
+  const projects = result.data as ProjectSummary[];
+  const match = projects.find((p) => p.name.toLowerCase() === name.toLowerCase());
+  if (match) return match;
+
+  const suggestions = similarProjects(name, projects).map((p) => `"${p.name}"`);
+  const didYouMean =
+    suggestions.length > 0 ? ` Did you mean ${suggestions.join(" or ")}? Ask the user which one.` : "";
+  throw new Error(`I couldn't find a project called "${name}".${didYouMean}`);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const MAX_SUGGESTIONS = 3;
+
+// Projects with close spellings or names containing one another, closest first
+function similarProjects(name: string, projects: ProjectSummary[]): ProjectSummary[] {
+  const key = projectKey(name);
+  return projects
+    .map((p) => {
+      const other = projectKey(p.name);
+      const distance = editDistance(key, other);
+      const related =
+        distance <= Math.max(1, Math.floor(Math.max(key.length, other.length) / 3)) ||
+        (key.length >= 3 && other.includes(key)) ||
+        (other.length >= 3 && key.includes(other));
+      return { p, distance, related };
+    })
+    .filter((m) => m.related)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((m) => m.p);
+}
+
+/**
+ * Matches a project name Claude was given against the existing projects.
+ * Names differing only in case or punctuation resolve outright; otherwise
+ * similar names come back as suggestions.
+ */
+async function resolveProject(
+  name: string
+): Promise<{ project: ProjectSummary } | { suggestions: ProjectSummary[] }> {
+  const result = await api.listProjects();
+  if (!result.ok) throw new Error(formatError(result));
+  const projects = result.data as ProjectSummary[];
+
+  const key = projectKey(name);
+  const exact = projects.find((p) => projectKey(p.name) === key);
+  if (exact) return { project: exact };
+  return { suggestions: similarProjects(name, projects) };
+}
+
+// ─── Live data ────────────────────────────────────────────────────────────────
+
+// Resources and prompts read the Action Center directly rather than through
+// a tool call, so failures surface as errors to the client
+
+type Settings = { timezone: string; today: string };
+
+async function fetchData<T>(request: Promise<ApiResult>): Promise<T> {
+  const result = await request;
+  if (!result.ok) throw new Error(formatError(result));
+  return result.data as T;
+}
+
+// The day a timestamp falls on in the Action Center's time zone
+function dayIn(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(iso));
+}
+
+function shiftDay(day: string, n: number): string {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().split("T")[0];
+}
+
+function nowIn(timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date());
+}
+
+type Agenda = {
+  settings: Settings;
+  tasks: TaskDetail[];
+  open: TaskDetail[];
+  overdue: TaskDetail[];
+  dueToday: TaskDetail[];
+  inProgress: TaskDetail[];
+};
+
+// Open tasks by when they are due, the same way the dashboard's Upcoming
+// view sorts them. Snoozed tasks are left out until they wake.
+async function loadAgenda(project?: string): Promise<Agenda> {
+  const [settings, { tasks }] = await Promise.all([
+    fetchData<Settings>(api.readSettings()),
+    fetchData<{ tasks: TaskDetail[] }>(api.listTasks({ sort: "due_date", project })),
+  ]);
+  const { today } = settings;
+  const now = nowIn(settings.timezone);
+
+  const open = tasks.filter((t) => t.status !== "done" && t.status !== "snoozed");
+  const isOverdue = (t: TaskDetail) =>
+    t.due_date !== null &&
+    (t.due_date < today || (t.due_date === today && t.due_time !== null && t.due_time < now));
+  return {
+    settings,
+    tasks,
+    open,
+    overdue: open.filter(isOverdue),
+    dueToday: open.filter((t) => t.due_date === today && !isOverdue(t)),
+    inProgress: open.filter((t) => t.status === "in_progress"),
+  };
+}
+
+function section(title: string, tasks: TaskSummary[], empty: string): string {
+  const body = tasks.length > 0 ? tasks.map(formatTaskLine).join("\n") : empty;
+  return `## ${title} (${tasks.length})\n\n${body}`;
+}
+
+// ─── Resource URIs ────────────────────────────────────────────────────────────
+
+const TODAY_URI = "action-center://tasks/today";
+const PROJECTS_URI = "action-center://projects";
+const TASK_URI_PREFIX = "action-center://tasks/";
+
+function taskUri(id: string): string {
+  return `${TASK_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+// ─── Prompt helpers ───────────────────────────────────────────────────────────
+
+const STALE_DAYS = 14;
+
+function userPrompt(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
 // ─── Server ───────────────────────────────────────────────────────────────────
 
-const server = new McpServer({
-  name: "action-center",
-  version: "0.1.0",
-});
+// Each connection gets its own server: stdio has just the one, while the
+// HTTP transport creates one per session
+function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "action-center",
+      version: "0.1.0",
+    },
+    // Clients can subscribe to resources and hear when they change
+    { capabilities: { resources: { subscribe: true } } }
+  );
 
-// ─── add_task ─────────────────────────────────────────────────────────────────
+  // ─── add_task ───────────────────────────────────────────────────────────────
 
-server.tool(
-  "add_task",
-  `Save a new task to the Action Center. Follow these rules strictly before calling this tool:
+  server.registerTool(
+    "add_task",
+    {
+      description: `Save a new task to the Action Center. Follow these rules strictly before calling this tool:
 
 1. GENERATE — Do not save the user's raw words. Derive a clear, specific task title and meaningful notes from their message and the conversation context. The title should be actionable (start with a verb). Notes should summarise what needs doing and why.
 2. CLARIFY — If the user's intent is too vague to produce a quality title or notes, ask one focused clarifying question before proceeding. Do not guess.
 3. DUE DATE — A due date is always required. If the user has not provided one, ask for it before calling this tool. Never save a task without a due date.
-4. CONFIRM — Before calling this tool, show the user the generated title, notes, and due date and get explicit confirmation. Do not save silently.`,
-  {
-    title: z.string().min(1).describe("Actionable task title generated from the conversation — not a verbatim copy of what the user said"),
-    project: z.string().min(1).describe("Project or domain this task belongs to"),
-    notes: z.string().optional().describe("Context, background, and detail drawn from the conversation"),
-    due_date: z.string().min(1).describe("Due date in YYYY-MM-DD format. Always required — ask the user if they have not provided one"),
-  },
-  async ({ title, project, notes, due_date }) => {
-    let result: ApiResult;
-    try {
-      result = await apiFetch("/tasks", {
-        method: "POST",
-        body: JSON.stringify({ title, project, notes, due_date, source: "claude" }),
-      });
-    } catch (err) {
-      return { content: [{ type: "text", text: (err as Error).message }], isError: true };
-    }
-
-    if (!result.ok) {
-      return { content: [{ type: "text", text: formatError(result) }], isError: true };
-    }
-
-    const task = result.data as { id: string; title: string; project: string };
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Saved "${task.title}" to your Action Center under *${task.project}*. (ID: ${task.id})`,
-        },
-      ],
-    };
-  }
-);
-
-// ─── list_tasks ───────────────────────────────────────────────────────────────
-
-server.tool(
-  "list_tasks",
-  "Retrieve tasks from the Action Center. Optionally filter by project or status.",
-  {
-    project: z.string().optional().describe("Filter to a specific project name"),
-    status: z
-      .enum(["pending", "in_progress", "done", "snoozed"])
-      .optional()
-      .describe("Filter by status. If omitted, returns all statuses"),
-  },
-  async ({ project, status }) => {
-    const params = new URLSearchParams();
-    if (project) params.set("project", project);
-    if (status) params.set("status", status);
-    const query = params.size > 0 ? `?${params.toString()}` : "";
-
-    let result: ApiResult;
-    try {
-      result = await apiFetch(`/tasks${query}`);
-    } catch (err) {
-      return { content: [{ type: "text", text: (err as Error).message }], isError: true };
-    }
-
-    if (!result.ok) {
-      return { content: [{ type: "text", text: formatError(result) }], isError: true };
-    }
-
-    const tasks = result.data as Array<{
-      id: string;
-      title: string;
-      project: string;
-      status: string;
-      due_date: string | null;
-    }>;
-
-    if (tasks.length === 0) {
-      const filter = project ? ` in *${project}*` : status ? ` with status "${status}"` : "";
-      return { content: [{ type: "text", text: `No tasks found${filter}.` }] };
-    }
-
-    const lines = tasks.map((t) => {
-      const due = t.due_date ? ` · due ${t.due_date}` : "";
-      return `- [${t.id}] ${t.title} (${t.project}) — ${t.status}${due}`;
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `You have ${tasks.length} task(s):\n\n${lines.join("\n")}`,
-        },
-      ],
-    };
-  }
-);
+4. PRIORITY — Infer a priority from the conversation rather than asking: P0 for anything blocking, broken in production or explicitly urgent; P1 for important work needed soon; P2 for normal tasks (the default); P3 for nice-to-haves and "someday" ideas.
+5. PROJECT — Always pass your current working directory as working_directory. If a project is linked to that repository it is used automatically, so only pass project when the user names a different one or no project is linked yet. A project name that doesn't match an existing project returns a "did you mean" response instead of saving: ask the user which suggestion they meant, or set create_project to true only once they confirm it really is a new project.
+6. CONFIRM — Before calling this tool, show the user the generated title, notes, due date, and priority and get explicit confirmation. Do not save silently.`,
+      inputSchema: {
+        title: taskFields.title.describe("Actionable task title generated from the conversation — not a verbatim copy of what the user said"),
+        project: taskFields.project.optional().describe("Project or domain this task belongs to. Overrides the project linked to working_directory"),
+        working_directory: z.string().optional().describe("Absolute path of the directory Claude Code is running in, used to pick the linked project"),
+        notes: taskFields.notes.optional().describe("Context, background, and detail drawn from the conversation"),
+        due_date: taskFields.due_date.describe("Due date as YYYY-MM-DD or a phrase like \"tomorrow\", \"next Friday\", \"in 2 weeks\" or \"end of month\", which the Action Center resolves. Always required — ask the user if they have not provided one. May include a time, e.g. \"friday 5pm\""),
+        due_time: taskFields.due_time
+          .optional()
+          .describe("Time of day the task is due, as HH:MM (24-hour) or a time like \"5pm\", in the Action Center's configured time zone. Only set this when the user gives a time"),
+        recurrence: taskFields.recurrence
+          .optional()
+          .describe(
+            "RRULE-style recurrence for repeating tasks, e.g. FREQ=WEEKLY;BYDAY=MO or FREQ=MONTHLY;BYMONTHDAY=1. Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY, BYMONTHDAY, BYMONTH and UNTIL. Only set this when the user asks for the task to repeat"
+          ),
+        priority: taskFields.priority
+          .optional()
+          .describe("P0 (urgent) to P3 (low), inferred from how the user talks about the task. Defaults to P2"),
+        tags: taskFields.tags
+          .optional()
+          .describe("Cross-project labels such as \"blocked\", \"review\" or \"waiting-on-legal\". Reuse existing tags where they fit"),
+        create_project: z
+          .boolean()
+          .optional()
+          .describe("Create project as a new project if no existing one matches. Only set this after the user confirms the new project name"),
+      },
+      outputSchema: {
+        task: taskResponse,
+      },
+    },
+    async ({ title, project, working_directory, notes, due_date, due_time, recurrence, priority, tags, create_project }) => {
+      let result: ApiResult;
+      try {
+        if (project && !create_project) {
+          const resolved = await resolveProject(project);
+          if ("suggestions" in resolved) {
+            const response = {
+              error: "project_not_found",
+              project,
+              did_you_mean: resolved.suggestions.map((p) => p.name),
+              hint: "Ask the user which project they meant and retry with that name, or retry with create_project: true if it is new.",
+            };
+            return {
+              content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+              isError: true,
+            };
+          }
+          project = resolved.project.name;
+        } else if (!project && working_directory) {
+          project = (await projectForDirectory(working_directory))?.name;
+        }
+        if (!project) {
+          const where = working_directory ? ` No project is linked to ${working_directory} yet.` : "";
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Which project should this task go under?${where} Ask the user, then pass project (and offer to link the repository with update_project).`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-// ─── complete_task ────────────────────────────────────────────────────────────
+        result = await api.createTask({ title, project, notes, due_date, due_time, recurrence, priority, tags, source: "claude" });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
 
-server.tool(
-  "complete_task",
-  "Mark a task as done. Always call list_tasks first to find the correct task ID — never guess an ID.",
-  {
-    task_id: z.string().min(1).describe("The ID of the task to mark as done"),
-  },
-  async ({ task_id }) => {
-    let result: ApiResult;
-    try {
-      result = await apiFetch(`/tasks/${task_id}`, {
-        method: "PATCH",
-        body: JSON.stringify({ status: "done" }),
-      });
-    } catch (err) {
-      return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = result.data as TaskRecord;
+      const due = task.due_date ? `, due ${formatDue(task)}` : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved "${task.title}" to your Action Center under *${task.project}* at ${task.priority}${due}. (ID: ${task.id})`,
+          },
+        ],
+        structuredContent: { task },
+      };
+    }
+  );
+
+  // ─── list_tasks ─────────────────────────────────────────────────────────────
+
+  // Enough to scan at a glance without filling the context window
+  const DEFAULT_PAGE_SIZE = 25;
+
+  server.registerTool(
+    "list_tasks",
+    {
+      description:
+        "Retrieve tasks from the Action Center, a page at a time. Optionally filter by project, status, priority or tags, and sort them. The result includes every task's fields, so IDs can be read from it directly.",
+      inputSchema: {
+        project: taskFields.project.optional().describe("Filter to a specific project name"),
+        status: taskFields.status
+          .optional()
+          .describe("Filter by status. If omitted, returns all statuses"),
+        priority: z
+          .array(taskFields.priority)
+          .optional()
+          .describe("Only return tasks with one of these priorities, e.g. [\"P0\", \"P1\"] for the important ones"),
+        tags: taskFields.tags
+          .optional()
+          .describe("Only return tasks carrying every one of these tags"),
+        sort: z
+          .enum(TASK_SORTS)
+          .optional()
+          .describe("Sort order: newest first (created_at, the default), recently changed first (updated_at), most urgent first (priority), soonest due first (due_date) or alphabetical (title)"),
+        include_archived: z
+          .boolean()
+          .optional()
+          .describe("Also return tasks in archived projects. Not needed when filtering by project"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_PAGE_SIZE)
+          .optional()
+          .describe(`How many tasks to return. Defaults to ${DEFAULT_PAGE_SIZE}`),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("How many tasks to skip, to fetch the next page. Use next_offset from the previous call"),
+      },
+      outputSchema: {
+        tasks: z.array(taskResponse),
+        total: z.number().describe("How many tasks match across every page"),
+        offset: z.number(),
+        next_offset: z
+          .number()
+          .nullable()
+          .describe("The offset of the next page, or null on the last page"),
+      },
+    },
+    async ({ project, status, priority, tags, sort, include_archived, limit = DEFAULT_PAGE_SIZE, offset = 0 }) => {
+      let result: ApiResult;
+      try {
+        result = await api.listTasks({
+          project,
+          status,
+          priority: priority?.length ? priority.join(",") : undefined,
+          tag: tags?.length ? tags.join(",") : undefined,
+          sort,
+          include_archived: include_archived ? "true" : undefined,
+          limit: String(limit),
+          offset: String(offset),
+        });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const { tasks, total } = result.data as { tasks: TaskRecord[]; total: number };
+      const end = offset + tasks.length;
+      const nextOffset = end < total ? end : null;
+      const structuredContent = { tasks, total, offset, next_offset: nextOffset };
+
+      if (tasks.length === 0) {
+        const filter = project ? ` in *${project}*` : status ? ` with status "${status}"` : "";
+        const text =
+          total > 0
+            ? `No more tasks${filter} — all ${total} have been listed.`
+            : `No tasks found${filter}.`;
+        return { content: [{ type: "text", text }], structuredContent };
+      }
+
+      const heading =
+        offset === 0 && nextOffset === null
+          ? `You have ${total} task(s):`
+          : `Showing tasks ${offset + 1}–${end} of ${total}:`;
+      const more =
+        nextOffset === null ? "" : `\n\nCall again with offset: ${nextOffset} for the next page.`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${heading}\n\n${tasks.map(formatTaskLine).join("\n")}${more}`,
+          },
+        ],
+        structuredContent,
+      };
     }
+  );
+
+  // ─── search_tasks ───────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "search_tasks",
+    {
+      description:
+        "Find tasks by keywords in their title, notes or project, best match first. Prefer this over list_tasks when looking for a specific task or its ID.",
+      inputSchema: {
+        query: z.string().min(1).describe("Keywords to search for, e.g. \"electron build\". Partial words match"),
+        project: taskFields.project.optional().describe("Only search within this project"),
+        status: taskFields.status.optional().describe("Only return tasks with this status"),
+      },
+      outputSchema: {
+        tasks: z.array(taskResponse).describe("Best match first"),
+      },
+    },
+    async ({ query, project, status }) => {
+      let result: ApiResult;
+      try {
+        result = await api.listTasks({ q: query, project, status });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const { tasks } = result.data as { tasks: TaskRecord[] };
+
+      if (tasks.length === 0) {
+        return {
+          content: [{ type: "text", text: `No tasks match "${query}".` }],
+          structuredContent: { tasks },
+        };
+      }
 
-    if (result.status === 404) {
       return {
-        content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
-        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `${tasks.length} task(s) match "${query}":\n\n${tasks.map(formatTaskLine).join("\n")}`,
+          },
+        ],
+        structuredContent: { tasks },
       };
     }
+  );
 
-    if (!result.ok) {
-      return { content: [{ type: "text", text: formatError(result) }], isError: true };
+  // ─── get_task ───────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "get_task",
+    {
+      description:
+        "Fetch one task in full: its complete notes, checklist, tags, recurrence and dates. Use it when the user asks about a specific task or before changing one whose details matter.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to fetch"),
+      },
+      outputSchema: {
+        task: taskResponse,
+      },
+    },
+    async ({ task_id }) => {
+      let result: ApiResult;
+      try {
+        result = await api.getTask(task_id);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = result.data as TaskRecord;
+
+      return {
+        content: [{ type: "text", text: formatTaskDetail(task) }],
+        structuredContent: { task },
+      };
     }
+  );
 
-    const task = result.data as { title: string };
-    return { content: [{ type: "text", text: `"${task.title}" is marked as done.` }] };
-  }
-);
-
-// ─── update_task ──────────────────────────────────────────────────────────────
-
-server.tool(
-  "update_task",
-  "Update one or more fields on an existing task. Always call list_tasks first to find the correct task ID.",
-  {
-    task_id: z.string().min(1).describe("The ID of the task to update"),
-    title: z.string().optional().describe("New title"),
-    notes: z.string().optional().describe("Updated context or notes"),
-    due_date: z.string().optional().describe("New due date in YYYY-MM-DD format"),
-    project: z.string().optional().describe("Move task to this project"),
-    status: z
-      .enum(["pending", "in_progress", "done", "snoozed"])
-      .optional()
-      .describe("New status"),
-  },
-  async ({ task_id, title, notes, due_date, project, status }) => {
-    const updates: Record<string, string> = {};
-    if (title !== undefined) updates.title = title;
-    if (notes !== undefined) updates.notes = notes;
-    if (due_date !== undefined) updates.due_date = due_date;
-    if (project !== undefined) updates.project = project;
-    if (status !== undefined) updates.status = status;
+  // ─── complete_task ──────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "complete_task",
+    {
+      description:
+        "Mark a task as done. Always call search_tasks or list_tasks first to find the correct task ID — never guess an ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to mark as done"),
+      },
+      outputSchema: {
+        task: taskResponse,
+        next_occurrence: taskResponse
+          .nullable()
+          .describe("The next task in the series when a recurring task is completed"),
+      },
+    },
+    async ({ task_id }) => {
+      let result: ApiResult;
+      try {
+        result = await api.updateTask(task_id, { status: "done" });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
 
-    if (Object.keys(updates).length === 0) {
-      return { content: [{ type: "text", text: "No fields provided to update." }], isError: true };
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const { next_occurrence = null, ...task } = result.data as TaskRecord & {
+        next_occurrence?: TaskRecord | null;
+      };
+      const next = next_occurrence
+        ? ` The next occurrence is due ${formatDue(next_occurrence)}. (ID: ${next_occurrence.id})`
+        : "";
+      return {
+        content: [{ type: "text", text: `"${task.title}" is marked as done.${next}` }],
+        structuredContent: { task, next_occurrence },
+      };
     }
+  );
 
-    let result: ApiResult;
-    try {
-      result = await apiFetch(`/tasks/${task_id}`, {
-        method: "PATCH",
-        body: JSON.stringify(updates),
-      });
-    } catch (err) {
-      return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+  // ─── reopen_task ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "reopen_task",
+    {
+      description:
+        "Reopen a completed task, e.g. when the user says it isn't actually finished. It goes back to pending, optionally with a new due date. Always call list_tasks or search_tasks first to find the correct task ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the completed task to reopen"),
+        due_date: taskFields.due_date
+          .optional()
+          .describe("New due date as YYYY-MM-DD or a phrase like \"tomorrow\" or \"next Friday 9am\". Ask the user if the old due date has passed"),
+      },
+      outputSchema: {
+        task: taskResponse,
+      },
+    },
+    async ({ task_id, due_date }) => {
+      let result: ApiResult;
+      try {
+        result = await api.getTask(task_id);
+        if (result.ok && (result.data as TaskSummary).status !== "done") {
+          const { title, status } = result.data as TaskSummary;
+          return {
+            content: [{ type: "text", text: `"${title}" is not completed (it is ${status}), so there is nothing to reopen.` }],
+            isError: true,
+          };
+        }
+        if (result.ok) {
+          result = await api.updateTask(task_id, { status: "pending", ...(due_date ? { due_date } : {}) });
+        }
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = result.data as TaskRecord;
+      const due = task.due_date ? `, due ${formatDue(task)}` : "";
+      return {
+        content: [{ type: "text", text: `Reopened "${task.title}"${due}.` }],
+        structuredContent: { task },
+      };
     }
+  );
 
-    if (result.status === 404) {
+  // ─── update_task ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "update_task",
+    {
+      description:
+        "Update one or more fields on an existing task. Always call list_tasks first to find the correct task ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to update"),
+        title: taskFields.title.optional().describe("New title"),
+        notes: taskFields.notes.optional().describe("Updated context or notes"),
+        due_date: clearable(taskFields.due_date).optional().describe("New due date as YYYY-MM-DD or a phrase like \"tomorrow\" or \"next Friday 9am\". Keeps the current due time unless one is given. Pass an empty string to unschedule the task"),
+        due_time: clearable(taskFields.due_time)
+          .optional()
+          .describe("New time of day the task is due, as HH:MM (24-hour) or a time like \"5pm\". Pass an empty string to make it due any time that day"),
+        project: taskFields.project.optional().describe("Move task to this project"),
+        status: taskFields.status.optional().describe("New status"),
+        priority: taskFields.priority.optional().describe("New priority, P0 (urgent) to P3 (low)"),
+        tags: taskFields.tags
+          .optional()
+          .describe("Replaces the task's tags. Include the existing tags you want to keep; pass an empty array to remove them all"),
+        recurrence: clearable(taskFields.recurrence)
+          .optional()
+          .describe("New RRULE-style recurrence, e.g. FREQ=WEEKLY;BYDAY=FR. Pass an empty string to stop the task repeating"),
+      },
+      outputSchema: {
+        task: taskResponse,
+      },
+    },
+    async ({ task_id, title, notes, due_date, due_time, project, status, priority, tags, recurrence }) => {
+      const updates = { title, notes, due_date, due_time, project, status, priority, tags, recurrence };
+      const changed = Object.keys(updates).filter(
+        (field) => updates[field as keyof typeof updates] !== undefined
+      );
+
+      if (changed.length === 0) {
+        return { content: [{ type: "text", text: "No fields provided to update." }], isError: true };
+      }
+
+      let result: ApiResult;
+      try {
+        result = await api.updateTask(task_id, updates);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = result.data as TaskRecord;
+      const fieldList = changed.join(", ");
       return {
-        content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
-        isError: true,
+        content: [{ type: "text", text: `Updated "${task.title}". Changed: ${fieldList}.` }],
+        structuredContent: { task },
       };
     }
+  );
+
+  // ─── snooze_task ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "snooze_task",
+    {
+      description:
+        "Hide a task until a later day or time, e.g. when the user says \"remind me about this next week\". The task leaves the Upcoming view and comes back on its own when the snooze ends. Pass an empty string for until to wake a snoozed task now. Always call list_tasks first to find the correct task ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to snooze"),
+        until: clearable(taskFields.snoozed_until).describe(
+          "When the task should come back: YYYY-MM-DD, a phrase like \"tomorrow\", \"next Monday\" or \"in 3 days\" (it returns as that day starts), or a day with a time like \"today 5pm\". Pass an empty string to wake the task now"
+        ),
+      },
+      outputSchema: {
+        task: taskResponse,
+      },
+    },
+    async ({ task_id, until }) => {
+      let result: ApiResult;
+      try {
+        result = await api.updateTask(task_id, { snoozed_until: until });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = result.data as TaskRecord;
+      const text = task.snoozed_until
+        ? `Snoozed "${task.title}" until ${task.snoozed_until}.`
+        : `"${task.title}" is awake again.`;
+      return { content: [{ type: "text", text }], structuredContent: { task } };
+    }
+  );
+
+  // ─── delete_task ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "delete_task",
+    {
+      description:
+        "Move a task to the Action Center's trash. This is destructive: first call without confirm to see what would be deleted, show that to the user, and only call again with confirm: true once they agree. It can be reverted with undo_last_change, or restored from the trash in the app.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to delete"),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Set to true only after the user has confirmed the deletion. Without it, nothing is deleted"),
+      },
+      outputSchema: {
+        task: taskResponse,
+        deleted: z.boolean().describe("False when confirm was not set, so nothing was deleted yet"),
+      },
+      annotations: { destructiveHint: true },
+    },
+    async ({ task_id, confirm }) => {
+      let found: ApiResult;
+      let result: ApiResult;
+      try {
+        found = await api.getTask(task_id);
+        result = found.ok && confirm ? await api.deleteTask(task_id) : found;
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
 
-    if (!result.ok) {
-      return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const task = found.data as TaskRecord;
+      if (!confirm) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `This would move this task to the trash:\n\n${formatTaskLine(task)}\n\nAsk the user to confirm, then call delete_task again with confirm: true.`,
+            },
+          ],
+          structuredContent: { task, deleted: false },
+        };
+      }
+      return {
+        content: [{ type: "text", text: "Moved the task to the trash. It can be restored from the Trash tab or with undo_last_change." }],
+        structuredContent: { task, deleted: true },
+      };
     }
+  );
+
+  // ─── bulk_update_tasks ──────────────────────────────────────────────────────
+
+  server.registerTool(
+    "bulk_update_tasks",
+    {
+      description:
+        "Apply one change to several tasks at once: set their status, move them to a new due date, move them to another project, or delete them. Pass exactly one of status, due_date, project or delete. The whole batch succeeds or fails together and can be reverted with a single undo_last_change. Always call list_tasks first to find the correct task IDs.",
+      inputSchema: {
+        task_ids: z
+          .array(taskFields.id)
+          .min(1)
+          .max(MAX_BULK_TASKS)
+          .describe("IDs of the tasks to change"),
+        status: taskFields.status.optional().describe("New status for every task"),
+        due_date: clearable(taskFields.due_date)
+          .optional()
+          .describe("New due date as YYYY-MM-DD or a phrase like \"next Monday\". Pass an empty string to unschedule the tasks"),
+        project: taskFields.project.optional().describe("Move every task to this project"),
+        delete: z.boolean().optional().describe("Move every task to the trash"),
+      },
+      outputSchema: {
+        updated: z.array(taskResponse),
+        created: z
+          .array(taskResponse)
+          .describe("Next occurrences of the recurring tasks that were completed"),
+        deleted: z.array(z.string()).describe("IDs of the tasks moved to the trash"),
+      },
+    },
+    async ({ task_ids, status, due_date, project, delete: remove }) => {
+      const operations = [
+        status !== undefined ? ({ action: "status", value: status } as const) : null,
+        due_date !== undefined ? ({ action: "due_date", value: due_date || null } as const) : null,
+        project !== undefined ? ({ action: "project", value: project } as const) : null,
+        remove ? ({ action: "delete" } as const) : null,
+      ].filter((op) => op !== null);
+
+      if (operations.length !== 1) {
+        return {
+          content: [{ type: "text", text: "Provide exactly one of status, due_date, project or delete." }],
+          isError: true,
+        };
+      }
+
+      let result: ApiResult;
+      try {
+        result = await api.bulkUpdateTasks({ ids: task_ids, ...operations[0] });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
 
-    const task = result.data as { title: string };
-    const fieldList = Object.keys(updates).join(", ");
-    return {
-      content: [{ type: "text", text: `Updated "${task.title}". Changed: ${fieldList}.` }],
-    };
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: `${formatError(result)}. Nothing was changed. Let me list your open tasks first.` }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const changes = result.data as {
+        updated: TaskRecord[];
+        created: TaskRecord[];
+        deleted: string[];
+      };
+      const { updated, created, deleted } = changes;
+
+      if (deleted.length > 0) {
+        return {
+          content: [{ type: "text", text: `Moved ${deleted.length} task(s) to the trash.` }],
+          structuredContent: changes,
+        };
+      }
+
+      const lines = updated.map(formatTaskLine);
+      if (created.length > 0) {
+        lines.push("", "Next occurrences created for recurring tasks:", ...created.map(formatTaskLine));
+      }
+      return {
+        content: [{ type: "text", text: `Updated ${updated.length} task(s):\n${lines.join("\n")}` }],
+        structuredContent: changes,
+      };
+    }
+  );
+
+  // ─── add_subtasks ───────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "add_subtasks",
+    {
+      description:
+        "Add checklist steps to an existing task, e.g. when a task turns out to involve several steps mid-conversation. Always call list_tasks first to find the correct task ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task to add steps to"),
+        items: z
+          .array(subtaskFields.title)
+          .min(1)
+          .describe("Short, actionable checklist steps in the order they should be done"),
+      },
+      outputSchema: {
+        subtasks: z.array(subtaskResponse).describe("The steps added, in order"),
+      },
+    },
+    async ({ task_id, items }) => {
+      const created: SubtaskRecord[] = [];
+
+      for (const title of items) {
+        let result: ApiResult;
+        try {
+          result = await api.addSubtask(task_id, { title });
+        } catch (err) {
+          return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+        }
+
+        if (result.status === 404) {
+          return {
+            content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+            isError: true,
+          };
+        }
+
+        if (!result.ok) {
+          return { content: [{ type: "text", text: formatError(result) }], isError: true };
+        }
+
+        created.push(result.data as SubtaskRecord);
+      }
+
+      const lines = created.map((s) => `- [${s.id}] ${s.title}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Added ${created.length} step(s):\n\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: { subtasks: created },
+      };
+    }
+  );
+
+  // ─── list_subtasks ──────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "list_subtasks",
+    {
+      description:
+        "Show the checklist steps of a task, with their IDs and whether each is done.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task whose checklist to show"),
+      },
+      outputSchema: {
+        subtasks: z.array(subtaskResponse),
+      },
+    },
+    async ({ task_id }) => {
+      let result: ApiResult;
+      try {
+        result = await api.listSubtasks(task_id);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that task. Let me list your open tasks first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const subtasks = result.data as SubtaskRecord[];
+
+      if (subtasks.length === 0) {
+        return {
+          content: [{ type: "text", text: "This task has no checklist steps." }],
+          structuredContent: { subtasks },
+        };
+      }
+
+      const lines = subtasks.map((s) => `- [${s.done ? "x" : " "}] ${s.title} (ID: ${s.id})`);
+      return { content: [{ type: "text", text: lines.join("\n") }], structuredContent: { subtasks } };
+    }
+  );
+
+  // ─── update_subtask ─────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "update_subtask",
+    {
+      description:
+        "Tick off, untick or rename a checklist step. Call list_subtasks first to find the step ID.",
+      inputSchema: {
+        task_id: taskFields.id.describe("The ID of the task the step belongs to"),
+        subtask_id: z.string().min(1).describe("The ID of the checklist step"),
+        done: subtaskFields.done.optional().describe("Whether the step is done"),
+        title: subtaskFields.title.optional().describe("New wording for the step"),
+      },
+      outputSchema: {
+        subtask: subtaskResponse,
+      },
+    },
+    async ({ task_id, subtask_id, done, title }) => {
+      const updates = { done, title };
+
+      if (Object.values(updates).every((v) => v === undefined)) {
+        return { content: [{ type: "text", text: "No fields provided to update." }], isError: true };
+      }
+
+      let result: ApiResult;
+      try {
+        result = await api.updateSubtask(task_id, subtask_id, updates);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (result.status === 404) {
+        return {
+          content: [{ type: "text", text: "I couldn't find that step. Let me list the task's checklist first." }],
+          isError: true,
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const subtask = result.data as SubtaskRecord;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `"${subtask.title}" is ${subtask.done ? "done" : "not done"}.`,
+          },
+        ],
+        structuredContent: { subtask },
+      };
+    }
+  );
+
+  // ─── list_projects ──────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "list_projects",
+    {
+      description:
+        "List the projects in the Action Center with their task counts, descriptions and linked repositories. Use it to find the exact name of a project before filing, moving, renaming or deleting.",
+      inputSchema: {
+        include_archived: z.boolean().optional().describe("Also list archived projects"),
+      },
+      outputSchema: {
+        projects: z.array(projectSummaryResponse),
+      },
+    },
+    async ({ include_archived }) => {
+      let result: ApiResult;
+      try {
+        result = await api.listProjects();
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const projects = (result.data as ProjectSummary[]).filter(
+        (p) => include_archived || !p.archived
+      );
+
+      if (projects.length === 0) {
+        return {
+          content: [{ type: "text", text: "There are no projects yet." }],
+          structuredContent: { projects },
+        };
+      }
+
+      const lines = projects.map(formatProjectLine);
+      return {
+        content: [{ type: "text", text: `${projects.length} project(s):\n\n${lines.join("\n")}` }],
+        structuredContent: { projects },
+      };
+    }
+  );
+
+  // ─── update_project ─────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "update_project",
+    {
+      description:
+        "Change a project's details: its colour in the Action Center, a short description, whether it is archived (archived projects' tasks are hidden from default views), or the local repository it is linked to. Linking a repository lets add_task pick the project automatically from the working directory.",
+      inputSchema: {
+        project: projectFields.name.describe("Name of the project to update"),
+        color: clearable(projectFields.color)
+          .optional()
+          .describe("Hex colour such as #CD7253, or null to clear it"),
+        description: clearable(projectFields.description)
+          .optional()
+          .describe("One-line description, or null to clear it"),
+        archived: projectFields.archived.optional().describe("Archive (true) or unarchive (false) the project"),
+        repo_path: clearable(projectFields.repo_path)
+          .optional()
+          .describe("Absolute path of the project's local repository, usually the current working directory. Null unlinks it"),
+      },
+      outputSchema: {
+        project: projectResponse,
+      },
+    },
+    async ({ project, ...fields }) => {
+      if (Object.values(fields).every((v) => v === undefined)) {
+        return { content: [{ type: "text", text: "No fields provided to update." }], isError: true };
+      }
+
+      let result: ApiResult;
+      try {
+        const match = await findProject(project);
+        result = await api.updateProject(match.id, fields);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const updated = result.data as ProjectRecord;
+      const details = [
+        updated.archived ? "archived" : "active",
+        updated.color && `colour ${updated.color}`,
+        updated.repo_path && `linked to ${updated.repo_path}`,
+        updated.description && `"${updated.description}"`,
+      ].filter(Boolean);
+      return {
+        content: [{ type: "text", text: `Updated *${updated.name}*: ${details.join(" · ")}.` }],
+        structuredContent: { project: updated },
+      };
+    }
+  );
+
+  // ─── rename_project ─────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "rename_project",
+    {
+      description:
+        "Rename a project. Its tasks move with it. If a project with the new name already exists, suggest merge_projects instead.",
+      inputSchema: {
+        project: projectFields.name.describe("Current name of the project"),
+        new_name: projectFields.name.describe("The new name"),
+      },
+      outputSchema: {
+        project: projectResponse,
+      },
+    },
+    async ({ project, new_name }) => {
+      let result: ApiResult;
+      try {
+        const match = await findProject(project);
+        result = await api.updateProject(match.id, { name: new_name });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const renamed = result.data as ProjectRecord;
+      return {
+        content: [{ type: "text", text: `Renamed *${project}* to *${renamed.name}*.` }],
+        structuredContent: { project: renamed },
+      };
+    }
+  );
+
+  // ─── find_duplicate_projects ────────────────────────────────────────────────
+
+  server.registerTool(
+    "find_duplicate_projects",
+    {
+      description:
+        "Find projects that are probably the same thing under slightly different names (e.g. \"web-app\", \"Web App\" and \"webapp\"). Names are compared ignoring case, spaces and punctuation. Suggest the merges to the user and only call merge_projects once they agree.",
+      outputSchema: {
+        duplicates: z.array(duplicateProjectsResponse),
+      },
+    },
+    async () => {
+      let result: ApiResult;
+      try {
+        result = await api.findDuplicateProjects();
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const groups = result.data as z.infer<typeof duplicateProjectsResponse>[];
+
+      if (groups.length === 0) {
+        return {
+          content: [{ type: "text", text: "No duplicate projects found." }],
+          structuredContent: { duplicates: groups },
+        };
+      }
+
+      const lines = groups.map(
+        (g) =>
+          `- Merge ${g.merge
+            .map((p) => `"${p.name}" (${p.task_count} task(s))`)
+            .join(", ")} into "${g.target.name}"`
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${groups.length} likely duplicate(s):\n\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: { duplicates: groups },
+      };
+    }
+  );
+
+  // ─── merge_projects ─────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "merge_projects",
+    {
+      description:
+        "Merge one project into another: every task in the source project moves to the target, and the source project is moved to the trash. This is destructive: first call without confirm to see what would happen, show that to the user, and only call again with confirm: true once they agree. It can be reverted with undo_last_change.",
+      inputSchema: {
+        source: projectFields.name.describe("Name of the project to merge away"),
+        target: projectFields.name.describe("Name of the project that receives its tasks"),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Set to true only after the user has confirmed the merge. Without it, nothing is merged"),
+      },
+      outputSchema: {
+        source: projectSummaryResponse.describe("The project merged away, as it was before the merge"),
+        target: projectResponse.describe("The project that receives the tasks"),
+        moved_tasks: z.number(),
+        merged: z.boolean().describe("False when confirm was not set, so nothing was merged yet"),
+      },
+      annotations: { destructiveHint: true },
+    },
+    async ({ source, target, confirm }) => {
+      let from: ProjectSummary;
+      let into: ProjectSummary;
+      let result: ApiResult | null = null;
+      try {
+        [from, into] = await Promise.all([findProject(source), findProject(target)]);
+        if (confirm && from.id !== into.id) {
+          result = await api.mergeProject(from.id, { target_id: into.id });
+        }
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (from.id === into.id) {
+        return {
+          content: [{ type: "text", text: `*${from.name}* and *${into.name}* are the same project, so there is nothing to merge.` }],
+          isError: true,
+        };
+      }
+
+      if (!result) {
+        // The target takes over the linked repository unless it has its own
+        const repo =
+          from.repo_path && !into.repo_path ? `, link *${into.name}* to ${from.repo_path}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `This would move the ${from.task_count} task(s) in *${from.name}* to *${into.name}*${repo} and move *${from.name}* to the trash. Ask the user to confirm, then call merge_projects again with confirm: true.`,
+            },
+          ],
+          structuredContent: { source: from, target: into, moved_tasks: from.task_count, merged: false },
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const { project, moved_tasks } = result.data as {
+        project: ProjectRecord;
+        moved_tasks: number;
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Merged *${from.name}* into *${project.name}* — ${moved_tasks} task(s) moved.`,
+          },
+        ],
+        structuredContent: { source: from, target: project, moved_tasks, merged: true },
+      };
+    }
+  );
+
+  // ─── delete_project ─────────────────────────────────────────────────────────
+
+  server.registerTool(
+    "delete_project",
+    {
+      description:
+        "Move a project to the trash. Its tasks are kept and move to Uncategorised. This is destructive: first call without confirm to see what would happen, show that to the user, and only call again with confirm: true once they agree. undo_last_change moves the tasks back and restores the project, as does restoring it from the trash in the app. Uncategorised itself cannot be deleted. To keep the tasks together under another project, use merge_projects instead.",
+      inputSchema: {
+        project: projectFields.name.describe("Name of the project to delete"),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Set to true only after the user has confirmed the deletion. Without it, nothing is deleted"),
+      },
+      outputSchema: {
+        project: projectSummaryResponse,
+        deleted: z.boolean().describe("False when confirm was not set, so nothing was deleted yet"),
+      },
+      annotations: { destructiveHint: true },
+    },
+    async ({ project, confirm }) => {
+      let match: ProjectSummary;
+      let result: ApiResult | null = null;
+      try {
+        match = await findProject(project);
+        if (confirm) result = await api.deleteProject(match.id);
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `This would move *${match.name}* to the trash and its ${match.task_count} task(s) to Uncategorised. Ask the user to confirm, then call delete_project again with confirm: true.`,
+            },
+          ],
+          structuredContent: { project: match, deleted: false },
+        };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Moved *${match.name}* to the trash; its ${match.task_count} task(s) are now under Uncategorised.`,
+          },
+        ],
+        structuredContent: { project: match, deleted: true },
+      };
+    }
+  );
+
+  // ─── undo_last_change ───────────────────────────────────────────────────────
+
+  const UNDO_DESCRIPTIONS: Record<string, string> = {
+    created: "removed the task it created",
+    deleted: "restored the deleted task",
+    restored: "moved it back to the trash",
+    status_changed: "restored its previous status",
+    rescheduled: "restored its previous due date",
+    updated: "restored the edited fields",
+  };
+
+  server.registerTool(
+    "undo_last_change",
+    {
+      description:
+        "Undo the most recent change(s) Claude made to the Action Center — e.g. a task added to the wrong project, completed by mistake or deleted. Only Claude's own changes are undone; edits the user made in the app are never touched. Tell the user what was undone.",
+      inputSchema: {
+        steps: undoFields.steps
+          .optional()
+          .describe("How many of Claude's changes to undo, most recent first. Defaults to 1"),
+      },
+      outputSchema: {
+        undone: z.array(undoneMutationResponse).describe("Most recent first"),
+      },
+    },
+    async ({ steps }) => {
+      let result: ApiResult;
+      try {
+        result = await api.undo({ steps: steps ?? 1, actor: "claude" });
+      } catch (err) {
+        return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+      }
+
+      if (!result.ok) {
+        return { content: [{ type: "text", text: formatError(result) }], isError: true };
+      }
+
+      const { undone } = result.data as { undone: z.infer<typeof undoneMutationResponse>[] };
+
+      if (undone.length === 0) {
+        return {
+          content: [{ type: "text", text: "There are no changes by Claude left to undo." }],
+          structuredContent: { undone },
+        };
+      }
+
+      const lines = undone.flatMap((m) =>
+        m.changes.map(
+          (c) =>
+            `- "${c.title ?? c.task_id}": ${UNDO_DESCRIPTIONS[c.type] ?? "reverted"}`
+        )
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Undid ${undone.length} change(s):\n\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: { undone },
+      };
+    }
+  );
+
+  // ─── Resources ──────────────────────────────────────────────────────────────
+
+  server.resource(
+    "today",
+    TODAY_URI,
+    {
+      description: "Open tasks that are overdue or due today, plus everything in progress, most urgent first",
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      const { settings, overdue, dueToday, inProgress } = await loadAgenda();
+      const text = [
+        `# Today — ${settings.today}`,
+        section("Overdue", overdue, "Nothing overdue."),
+        section("Due today", dueToday, "Nothing due today."),
+        section("In progress", inProgress, "Nothing in progress."),
+      ].join("\n\n");
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text }] };
+    }
+  );
+
+  server.resource(
+    "projects",
+    PROJECTS_URI,
+    {
+      description: "Every project with its task count, description and linked repository",
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      const projects = await fetchData<ProjectSummary[]>(api.listProjects());
+      const text =
+        projects.length > 0
+          ? `# Projects\n\n${projects.map(formatProjectLine).join("\n")}`
+          : "# Projects\n\nThere are no projects yet.";
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text }] };
+    }
+  );
+
+  server.resource(
+    "task",
+    new ResourceTemplate(`${TASK_URI_PREFIX}{id}`, {
+      // Open tasks only; completed ones can still be read by URI
+      list: async () => {
+        const { tasks } = await fetchData<{ tasks: TaskSummary[] }>(api.listTasks({ sort: "due_date" }));
+        return {
+          resources: tasks
+            .filter((t) => t.status !== "done")
+            .map((t) => ({
+              uri: taskUri(t.id),
+              name: t.title,
+              description: `${t.project} · ${t.priority} · ${formatStatus(t)}`,
+              mimeType: "text/markdown",
+            })),
+        };
+      },
+    }),
+    {
+      description: "One task in full: notes, checklist, tags, recurrence and dates",
+      mimeType: "text/markdown",
+    },
+    async (uri, { id }) => {
+      const task = await fetchData<TaskDetail>(api.getTask(String(id)));
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: formatTaskDetail(task) }],
+      };
+    }
+  );
+
+  // ─── Subscriptions ──────────────────────────────────────────────────────────
+
+  const subscriptions = new Set<string>();
+  let watcher: AbortController | null = null;
+
+  // Every change can move a task in or out of today or change a project's
+  // task count; only single-task events leave other tasks' URIs alone
+  async function notifyChanged(event: ChangeEvent) {
+    const taskId =
+      event.type === "task.deleted"
+        ? event.id
+        : event.type === "task.created" || event.type === "task.updated"
+          ? event.task.id
+          : null;
+
+    for (const uri of subscriptions) {
+      const affected =
+        uri === TODAY_URI ||
+        uri === PROJECTS_URI ||
+        (taskId === null ? uri.startsWith(TASK_URI_PREFIX) : uri === taskUri(taskId));
+      if (affected) await server.server.sendResourceUpdated({ uri });
+    }
+
+    // The list of task resources only changes when tasks come or go
+    if (event.type !== "task.updated" && event.type !== "projects.changed") {
+      await server.server.sendResourceListChanged();
+    }
   }
-);
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    subscriptions.add(params.uri);
+    if (!watcher) {
+      watcher = new AbortController();
+      void api.watch(watcher.signal, notifyChanged);
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscriptions.delete(params.uri);
+    if (subscriptions.size === 0 && watcher) {
+      watcher.abort();
+      watcher = null;
+    }
+    return {};
+  });
+
+  // Stop following events once the client disconnects or the server closes
+  server.server.onclose = () => {
+    watcher?.abort();
+    watcher = null;
+  };
+
+  // ─── Prompts ────────────────────────────────────────────────────────────────
+
+  server.prompt(
+    "daily_standup",
+    "Write a daily standup (yesterday, today, blockers) from what is in the Action Center right now",
+    {
+      project: z.string().optional().describe("Only include this project's tasks"),
+    },
+    async ({ project }) => {
+      const { settings, tasks, overdue, dueToday, inProgress } = await loadAgenda(project);
+      const yesterday = shiftDay(settings.today, -1);
+      const finished = tasks.filter(
+        (t) => t.status === "done" && dayIn(t.updated_at, settings.timezone) >= yesterday
+      );
+      const blocked = tasks.filter(
+        (t) => t.status !== "done" && t.tags.some((tag) => tag.name === "blocked" || tag.name.startsWith("waiting"))
+      );
+      const scope = project ? ` for the *${project}* project` : "";
+
+      return userPrompt(
+        [
+          `Write my daily standup${scope} for ${settings.today} from the Action Center data below. Use three short sections — Yesterday, Today and Blockers — with one line per item in plain language, not task IDs. Mention overdue work under Today. Only use what is listed; don't invent progress.`,
+          section("Completed since yesterday", finished, "None."),
+          section("In progress", inProgress, "None."),
+          section("Overdue", overdue, "None."),
+          section("Due today", dueToday, "None."),
+          section("Blocked or waiting", blocked, "None."),
+        ].join("\n\n")
+      );
+    }
+  );
+
+  server.prompt(
+    "weekly_review",
+    "Review the past week and plan the next one from live Action Center data: wins, slipping and stale tasks, and what is coming up",
+    {
+      project: z.string().optional().describe("Only include this project's tasks"),
+    },
+    async ({ project }) => {
+      const { settings, tasks, open, overdue } = await loadAgenda(project);
+      const { today, timezone } = settings;
+      const weekAgo = shiftDay(today, -7);
+      const weekAhead = shiftDay(today, 7);
+      const staleBefore = shiftDay(today, -STALE_DAYS);
+
+      const completed = tasks.filter(
+        (t) => t.status === "done" && dayIn(t.updated_at, timezone) > weekAgo
+      );
+      const upcoming = open.filter(
+        (t) => t.due_date !== null && t.due_date >= today && t.due_date <= weekAhead && !overdue.includes(t)
+      );
+      const snoozed = tasks.filter((t) => t.status === "snoozed");
+      const stale = open.filter((t) => dayIn(t.updated_at, timezone) < staleBefore);
+      const unscheduled = open.filter((t) => t.due_date === null);
+      const scope = project ? ` of the *${project}* project` : "";
+
+      return userPrompt(
+        [
+          `Run a weekly review${scope} with me for the week ending ${today}, using the Action Center data below. Start with a short summary of what got done. Then go through the overdue and stale tasks and suggest, for each, whether to reschedule, re-prioritise, snooze or delete it — ask me before changing anything. Finish by proposing the three to five most important tasks for the coming week.`,
+          section("Completed in the last 7 days", completed, "None."),
+          section("Overdue", overdue, "None."),
+          section("Due in the next 7 days", upcoming, "None."),
+          section(`Not touched in ${STALE_DAYS}+ days`, stale, "None."),
+          section("Snoozed", snoozed, "None."),
+          section("Unscheduled", unscheduled, "None."),
+        ].join("\n\n")
+      );
+    }
+  );
+
+  return server;
+}
 
 // ─── Start ────────────────────────────────────────────────────────────────────
 
-const transport = new StdioServerTransport();
-await server.connect(transport);
+// Stdio by default, so each client runs its own server. --http (or
+// MCP_TRANSPORT=http) serves Streamable HTTP instead, for one long-running
+// server that several clients share.
+const DEFAULT_HTTP_PORT = 3100;
+
+if (flags.http || process.env.MCP_TRANSPORT === "http") {
+  const secret = process.env.MCP_SECRET;
+  if (!secret) {
+    console.error(`Set MCP_SECRET to the secret clients will send in the ${SECRET_HEADER} header.`);
+    process.exit(1);
+  }
+  const http = serveHttp(createServer, {
+    // Only this machine can connect unless told otherwise, e.g. 0.0.0.0 for the LAN
+    hostname: flags.host ?? process.env.MCP_HOST ?? "127.0.0.1",
+    port: Number(flags.port ?? process.env.MCP_PORT ?? DEFAULT_HTTP_PORT),
+    secret,
+  });
+  console.error(`Action Center MCP server listening on ${http.url.origin}${MCP_PATH}`);
+} else {
+  await createServer().connect(new StdioServerTransport());
+}
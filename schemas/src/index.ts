@@ -0,0 +1,8 @@
+// Request and response schemas shared by the Action Center API and its MCP
+// server, so a value the MCP tools accept is one the API accepts too
+
+export * from "./validation";
+export * from "./tasks";
+export * from "./projects";
+export * from "./tags";
+export * from "./undo";
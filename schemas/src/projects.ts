@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { clearable } from "./validation";
+
+/**
+ * Names that differ only in case, spacing or punctuation share a key, so
+ * "web-app", "Web App" and "webapp" are all "webapp".
+ */
+export function projectKey(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+export const projectFields = {
+  id: z.string().min(1, "Project ID cannot be empty"),
+  name: z.string().trim().min(1, "name cannot be empty"),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "color must be a hex colour like #CD7253")
+    .transform((c) => c.toUpperCase()),
+  description: z.string().trim().min(1),
+  archived: z.boolean(),
+  // Trailing separators are dropped so "/code/app/" and "/code/app" match
+  repo_path: z
+    .string()
+    .trim()
+    .transform((p) => p.replace(/[\\/]+$/, ""))
+    .pipe(z.string().min(1, "repo_path must be a directory path")),
+};
+
+// null (or "") clears the optional details
+const projectDetails = {
+  color: clearable(projectFields.color).optional(),
+  description: clearable(projectFields.description).optional(),
+  archived: projectFields.archived.optional(),
+  repo_path: clearable(projectFields.repo_path).optional(),
+};
+
+export const createProjectBody = z
+  .object({ name: projectFields.name, ...projectDetails })
+  .strict();
+
+export const updateProjectBody = z
+  .object({ name: projectFields.name.optional(), ...projectDetails })
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, {
+    message: "No fields provided to update",
+  });
+
+export type ProjectFields = z.infer<typeof updateProjectBody>;
+
+export const mergeProjectBody = z
+  .object({ target_id: projectFields.id })
+  .strict();
+
+// ?path=/some/dir looks up the project linked to that directory
+export const listProjectsQuery = z.object({
+  path: z.string().min(1).optional(),
+});
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+export const projectResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string().nullable().describe("Hex colour, e.g. #CD7253"),
+  description: z.string().nullable(),
+  archived: z.boolean(),
+  repo_path: z.string().nullable().describe("Local repository linked to the project"),
+});
+
+// As listed, with how many tasks each holds outside the trash
+export const projectSummaryResponse = projectResponse.extend({
+  task_count: z.number(),
+});
+
+// Projects whose names only differ in case or punctuation
+export const duplicateProjectsResponse = z.object({
+  target: z
+    .object({ id: z.string(), name: z.string() })
+    .describe("The project with the most tasks, which the others merge into"),
+  merge: z.array(z.object({ id: z.string(), name: z.string(), task_count: z.number() })),
+});
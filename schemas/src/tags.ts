@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const tagFields = {
+  name: z.string().trim().min(1, "name cannot be empty"),
+};
+
+export const tagBody = z.object({ name: tagFields.name }).strict();
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { booleanParam, clearable, listParam, numberParam } from "./validation";
+
+export const VALID_STATUSES = [
+  "pending",
+  "in_progress",
+  "done",
+  "snoozed",
+] as const;
+
+export type TaskStatus = (typeof VALID_STATUSES)[number];
+
+// P0 is the most urgent; stored as text so priorities sort lexically
+export const VALID_PRIORITIES = ["P0", "P1", "P2", "P3"] as const;
+
+export type TaskPriority = (typeof VALID_PRIORITIES)[number];
+
+export const DEFAULT_PRIORITY: TaskPriority = "P2";
+
+export const TASK_SORTS = [
+  "created_at",
+  "updated_at",
+  "priority",
+  "due_date",
+  "title",
+] as const;
+
+// Task lists are unpaged unless a limit is given
+export const MAX_PAGE_SIZE = 200;
+
+export const MAX_BULK_TASKS = 500;
+
+/**
+ * One schema per task field. The API builds its request bodies from these
+ * and the MCP server its tool arguments, so both accept exactly the same
+ * values.
+ */
+export const taskFields = {
+  id: z.string().min(1, "Task ID cannot be empty"),
+  title: z.string().trim().min(1, "title cannot be empty"),
+  notes: z.string(),
+  project: z.string().trim().min(1, "project cannot be empty"),
+  status: z.enum(VALID_STATUSES),
+  priority: z.enum(VALID_PRIORITIES),
+  // YYYY-MM-DD or a phrase like "next friday"; the API resolves it
+  due_date: z.string().trim().min(1, "due_date cannot be empty"),
+  // HH:MM (24-hour) or a time like "5pm"; a due_date may carry one too
+  due_time: z.string().trim().min(1, "due_time cannot be empty"),
+  // A day ("monday") or a moment ("today 5pm") the task wakes up at
+  snoozed_until: z.string().trim().min(1, "snoozed_until cannot be empty"),
+  // RRULE-style, e.g. FREQ=WEEKLY;BYDAY=MO; the API checks the parts
+  recurrence: z.string().trim().min(1, "recurrence cannot be empty"),
+  tags: z.array(z.string().trim().min(1, "Tag names cannot be empty")),
+  source: z.enum(["claude", "manual"]),
+};
+
+export const createTaskBody = z
+  .object({
+    title: taskFields.title,
+    project: taskFields.project,
+    notes: taskFields.notes.nullable().optional(),
+    due_date: clearable(taskFields.due_date).optional(),
+    due_time: clearable(taskFields.due_time).optional(),
+    recurrence: clearable(taskFields.recurrence).optional(),
+    priority: taskFields.priority.optional(),
+    tags: taskFields.tags.optional(),
+    source: taskFields.source.optional(),
+  })
+  .strict();
+
+export type CreateTaskBody = z.infer<typeof createTaskBody>;
+
+// null (or "") clears a date or stops a task repeating; clearing due_date
+// clears due_time with it
+export const updateTaskBody = z
+  .object({
+    title: taskFields.title.optional(),
+    notes: taskFields.notes.nullable().optional(),
+    project: taskFields.project.optional(),
+    status: taskFields.status.optional(),
+    priority: taskFields.priority.optional(),
+    due_date: clearable(taskFields.due_date).optional(),
+    due_time: clearable(taskFields.due_time).optional(),
+    snoozed_until: clearable(taskFields.snoozed_until).optional(),
+    recurrence: clearable(taskFields.recurrence).optional(),
+    // Replaces the task's tags
+    tags: taskFields.tags.optional(),
+  })
+  .strict();
+
+export type UpdateTaskBody = z.infer<typeof updateTaskBody>;
+
+const bulkIds = z
+  .array(taskFields.id)
+  .min(1, "ids must list at least one task")
+  .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks can be changed at once`);
+
+export const bulkTasksBody = z.discriminatedUnion("action", [
+  z.object({ ids: bulkIds, action: z.literal("status"), value: taskFields.status }).strict(),
+  z.object({ ids: bulkIds, action: z.literal("due_date"), value: clearable(taskFields.due_date) }).strict(),
+  z.object({ ids: bulkIds, action: z.literal("project"), value: taskFields.project }).strict(),
+  z.object({ ids: bulkIds, action: z.literal("delete") }).strict(),
+]);
+
+export type BulkTasksBody = z.infer<typeof bulkTasksBody>;
+
+// ?priority=P0,P1 matches either; ?tag=blocked,review needs both
+export const listTasksQuery = z.object({
+  project: z.string().min(1).optional(),
+  status: taskFields.status.optional(),
+  q: z.string().optional(),
+  sort: z.enum(TASK_SORTS).optional(),
+  priority: listParam(taskFields.priority).optional(),
+  tag: listParam(z.string()).optional(),
+  include_archived: booleanParam.optional(),
+  limit: numberParam(1, MAX_PAGE_SIZE).optional(),
+  offset: numberParam(0, Number.MAX_SAFE_INTEGER).optional(),
+});
+
+export type ListTasksQuery = z.infer<typeof listTasksQuery>;
+
+export const subtaskFields = {
+  title: z.string().trim().min(1, "title cannot be empty"),
+  done: z.boolean(),
+  position: z.number().int("position must be a whole number"),
+};
+
+export const createSubtaskBody = z
+  .object({ title: subtaskFields.title })
+  .strict();
+
+export const updateSubtaskBody = z
+  .object({
+    title: subtaskFields.title.optional(),
+    done: subtaskFields.done.optional(),
+    position: subtaskFields.position.optional(),
+  })
+  .strict();
+
+export type UpdateSubtaskBody = z.infer<typeof updateSubtaskBody>;
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+// Timestamps arrive as ISO strings once serialised
+const timestamp = z.string().describe("ISO 8601 timestamp");
+
+export const subtaskResponse = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  title: z.string(),
+  done: z.boolean(),
+  position: z.number(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const tagResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  created_at: timestamp,
+});
+
+/**
+ * A task as the API returns it. The MCP server hands clients the same
+ * objects as structured tool output, so they never have to parse text.
+ */
+export const taskResponse = z.object({
+  id: z.string(),
+  title: z.string(),
+  notes: z.string().nullable(),
+  project: z.string().describe("Project name"),
+  project_id: z.string(),
+  status: z.enum(VALID_STATUSES),
+  priority: z.enum(VALID_PRIORITIES),
+  due_date: z.string().nullable().describe("YYYY-MM-DD"),
+  due_time: z.string().nullable().describe("HH:MM in the configured time zone"),
+  snoozed_until: z
+    .string()
+    .nullable()
+    .describe("YYYY-MM-DD, or YYYY-MM-DD HH:MM for a snooze ending at a set time"),
+  recurrence: z.string().nullable().describe("RRULE-style, e.g. FREQ=WEEKLY;BYDAY=MO"),
+  source: z.string(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  deleted_at: timestamp.nullable(),
+  subtasks: z.array(subtaskResponse),
+  tags: z.array(tagResponse),
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+export const MAX_UNDO_STEPS = 20;
+
+export const undoFields = {
+  mutation_id: z.string().min(1, "mutation_id cannot be empty"),
+  steps: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_UNDO_STEPS, `steps must be at most ${MAX_UNDO_STEPS}`),
+  actor: z.enum(["claude", "manual", "system"]),
+};
+
+// Undo one change by its mutation ID, or the last `steps` changes
+// (optionally only those one actor made)
+export const undoBody = z
+  .object({
+    mutation_id: undoFields.mutation_id.optional(),
+    steps: undoFields.steps.default(1),
+    actor: undoFields.actor.optional(),
+  })
+  .strict();
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+export const undoneMutationResponse = z.object({
+  mutation_id: z.string(),
+  actor: undoFields.actor.describe("Who made the change that was undone"),
+  changes: z.array(
+    z.object({
+      task_id: z.string(),
+      title: z.string().nullable(),
+      type: z
+        .string()
+        .describe("The kind of change, e.g. created, deleted, status_changed or updated"),
+    })
+  ),
+});
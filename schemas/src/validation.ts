@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// So consumers can be generic over schemas without depending on zod
+export type Schema = z.ZodTypeAny;
+export type Output<S extends Schema> = z.output<S>;
+
+/** Field name → what's wrong with it, e.g. { priority: "Expected P0 | P1 | P2 | P3" } */
+export type FieldErrors = Record<string, string>;
+
+export type Validated<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; fields: FieldErrors };
+
+function fieldErrors(error: z.ZodError): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) fields[key] ??= "Unknown field";
+      continue;
+    }
+    const path = issue.path.join(".") || "body";
+    fields[path] ??= issue.message;
+  }
+  return fields;
+}
+
+/**
+ * Checks `input` against `schema`. Failures list every offending field, and
+ * summarise them in `error` for clients that only show one message.
+ */
+export function validate<S extends Schema>(
+  schema: S,
+  input: unknown
+): Validated<Output<S>> {
+  const result = schema.safeParse(input);
+  if (result.success) return { ok: true, data: result.data };
+
+  const fields = fieldErrors(result.error);
+  const summary = Object.entries(fields)
+    .map(([field, message]) => `${field}: ${message}`)
+    .join("; ");
+  return { ok: false, error: `Invalid request — ${summary}`, fields };
+}
+
+// Query strings only carry text; these read the common shapes out of them
+
+/** "true" or "false" */
+export const booleanParam = z
+  .enum(["true", "false"], {
+    errorMap: () => ({ message: "Expected true or false" }),
+  })
+  .transform((v) => v === "true");
+
+/** A whole number from `min` to `max`, e.g. ?limit=50 */
+export function numberParam(min: number, max: number) {
+  return z
+    .string()
+    .regex(/^\d+$/, "Expected a whole number")
+    .transform(Number)
+    .pipe(z.number().min(min).max(max));
+}
+
+/** A comma-separated list, e.g. ?priority=P0,P1 */
+export function listParam<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .string()
+    .transform((v) => v.split(",").map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(item));
+}
+
+// Lets "" clear an optional field, as null does
+export function clearable<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((v) => (v === "" ? null : v), schema.nullable());
+}